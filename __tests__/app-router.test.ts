@@ -0,0 +1,174 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMarkdownHandler, createMarkdownRewrite } from '../src/app-router';
+
+describe('app-router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createMarkdownRewrite', () => {
+    it('.mdリクエストをAPIパスにリライトする', () => {
+      const rewrite = createMarkdownRewrite('/api/markdown');
+      const request = new NextRequest(new URL('http://localhost:3000/about.md'));
+      const result = rewrite(request);
+      expect(result?.headers.get('x-middleware-rewrite')).toBe(
+        'http://localhost:3000/api/markdown/about'
+      );
+    });
+
+    it('mappingに合わせてインデックスページ・プレフィックス・クエリをリライトする', () => {
+      const rewrite = createMarkdownRewrite('/api/markdown', {
+        mapping: { suffixes: ['.md', '.markdown'], prefix: '/md', query: 'format=md' },
+      });
+      const rewriteTo = (url: string) =>
+        rewrite(new NextRequest(new URL(url)))?.headers.get('x-middleware-rewrite');
+
+      expect(rewriteTo('http://localhost:3000/index.md')).toBe(
+        'http://localhost:3000/api/markdown'
+      );
+      expect(rewriteTo('http://localhost:3000/docs/index.markdown')).toBe(
+        'http://localhost:3000/api/markdown/docs'
+      );
+      expect(rewriteTo('http://localhost:3000/md/about')).toBe(
+        'http://localhost:3000/api/markdown/about'
+      );
+      expect(rewriteTo('http://localhost:3000/about?format=md')).toBe(
+        'http://localhost:3000/api/markdown/about?format=md'
+      );
+      expect(rewriteTo('http://localhost:3000/about?format=html')).toBeUndefined();
+    });
+
+    it('basePathを維持し、ロケールをAPIパスの先頭に含める', () => {
+      const nextConfig = {
+        basePath: '/site',
+        i18n: { locales: ['en', 'ja'], defaultLocale: 'en' },
+      };
+      const rewrite = createMarkdownRewrite('/api/markdown', {
+        locale: { locales: ['en', 'ja'], detect: true },
+      });
+
+      const explicit = rewrite(
+        new NextRequest('http://localhost:3000/site/ja/about.md', { nextConfig })
+      );
+      expect(explicit?.headers.get('x-middleware-rewrite')).toBe(
+        'http://localhost:3000/site/api/markdown/ja/about'
+      );
+      expect(explicit?.headers.get('Vary')).toBeNull();
+
+      const detected = rewrite(
+        new NextRequest('http://localhost:3000/site/about.md', {
+          headers: { 'accept-language': 'ja' },
+          nextConfig,
+        })
+      );
+      expect(detected?.headers.get('x-middleware-rewrite')).toBe(
+        'http://localhost:3000/site/api/markdown/ja/about'
+      );
+      expect(detected?.headers.get('Vary')).toBe('Accept-Language');
+    });
+
+    it('.md以外のリクエストはnullを返す', () => {
+      const rewrite = createMarkdownRewrite('/api/markdown');
+      const request = new NextRequest(new URL('http://localhost:3000/about'), {
+        headers: { accept: 'text/markdown' },
+      });
+      expect(rewrite(request)).toBeNull();
+    });
+
+    it('negotiate有効時はAccept: text/markdownを同じパスでリライトする', () => {
+      const rewrite = createMarkdownRewrite('/api/markdown', { negotiate: true });
+      const request = new NextRequest(new URL('http://localhost:3000/about'), {
+        headers: { accept: 'text/markdown' },
+      });
+      const result = rewrite(request);
+      expect(result?.headers.get('x-middleware-rewrite')).toBe(
+        'http://localhost:3000/api/markdown/about'
+      );
+      expect(result?.headers.get('Vary')).toBe('Accept');
+    });
+
+    it('negotiate有効時もHTMLを優先する場合はnullを返す', () => {
+      const rewrite = createMarkdownRewrite('/api/markdown', { negotiate: true });
+      const request = new NextRequest(new URL('http://localhost:3000/about'), {
+        headers: { accept: 'text/html,application/xhtml+xml,*/*;q=0.8' },
+      });
+      expect(rewrite(request)).toBeNull();
+    });
+  });
+
+  describe('createMarkdownHandler', () => {
+    it('オプショナルキャッチオールでpathがない場合はルートパスを変換する', async () => {
+      global.fetch = vi.fn().mockImplementation(
+        async () =>
+          new Response('<html><body><h1>Home</h1></body></html>', {
+            headers: { 'content-type': 'text/html' },
+          })
+      );
+      const handler = createMarkdownHandler();
+
+      const response = await handler(
+        new NextRequest('http://localhost:3000/api/markdown', {
+          headers: { host: 'localhost:3000' },
+        }),
+        { params: {} }
+      );
+
+      expect(response.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledWith('https://localhost:3000/', expect.anything());
+    });
+
+    it('パスの先頭のロケールを分離してページを取得する', async () => {
+      global.fetch = vi.fn().mockImplementation(
+        async () =>
+          new Response('<html><body><h1>About</h1></body></html>', {
+            headers: { 'content-type': 'text/html' },
+          })
+      );
+      const handler = createMarkdownHandler({ locale: { locales: ['en', 'ja'] } });
+
+      const response = await handler(
+        new NextRequest('http://localhost:3000/api/markdown/ja/about', {
+          headers: { host: 'localhost:3000' },
+        }),
+        { params: { path: ['ja', 'about'] } }
+      );
+
+      expect(response.headers.get('Content-Language')).toBe('ja');
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://localhost:3000/ja/about',
+        expect.anything()
+      );
+    });
+
+    it('If-None-MatchがETagに一致する場合は304を返す', async () => {
+      global.fetch = vi.fn().mockImplementation(
+        async () =>
+          new Response('<html><body><h1>Test</h1></body></html>', {
+            headers: { 'content-type': 'text/html' },
+          })
+      );
+      const handler = createMarkdownHandler();
+      const context = { params: { path: ['test'] } };
+
+      const first = await handler(
+        new NextRequest('http://localhost:3000/api/markdown/test', {
+          headers: { host: 'localhost:3000' },
+        }),
+        context
+      );
+      const etag = first.headers.get('ETag');
+      expect(first.status).toBe(200);
+      expect(etag).toBeTruthy();
+
+      const second = await handler(
+        new NextRequest('http://localhost:3000/api/markdown/test', {
+          headers: { host: 'localhost:3000', 'if-none-match': etag ?? '' },
+        }),
+        context
+      );
+      expect(second.status).toBe(304);
+      expect(second.headers.get('ETag')).toBe(etag);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCacheKey, createMemoryCacheStore, loadOnce, loadWithCache } from '../src/cache';
+import type { CacheEntry, CacheStore } from '../src/types';
+
+describe('cache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createMemoryCacheStore', () => {
+    it('保存したエントリを取得できる', () => {
+      const store = createMemoryCacheStore();
+      const entry = { markdown: '# Test', createdAt: Date.now() };
+      store.set('key', entry, 60);
+
+      expect(store.get('key')).toEqual(entry);
+    });
+
+    it('TTLを過ぎたエントリは取得できない', () => {
+      const store = createMemoryCacheStore();
+      store.set('key', { markdown: '# Test', createdAt: Date.now() }, 60);
+
+      vi.advanceTimersByTime(61 * 1000);
+      expect(store.get('key')).toBeUndefined();
+    });
+
+    it('最大エントリ数を超えると最も古く参照されたエントリを破棄する', () => {
+      const store = createMemoryCacheStore({ maxEntries: 2 });
+      store.set('a', { markdown: 'a', createdAt: Date.now() }, 60);
+      store.set('b', { markdown: 'b', createdAt: Date.now() }, 60);
+      // aを参照してbを最も古いエントリにする
+      store.get('a');
+      store.set('c', { markdown: 'c', createdAt: Date.now() }, 60);
+
+      expect(store.get('a')).toBeDefined();
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toBeDefined();
+    });
+  });
+
+  describe('createCacheKey', () => {
+    const options = { turndown: { headingStyle: 'atx' } };
+
+    it('同じURL・ヘッダー・オプションでは同じキーになる', () => {
+      const headers = new Headers({ 'accept-language': 'ja' });
+      expect(createCacheKey('https://example.com/a', headers, ['accept-language'], options)).toBe(
+        createCacheKey('https://example.com/a', new Headers(headers), ['accept-language'], {
+          turndown: { headingStyle: 'atx' },
+        })
+      );
+    });
+
+    it('varyHeadersに含まれるヘッダーの値でキーが変わる', () => {
+      const ja = new Headers({ 'accept-language': 'ja' });
+      const en = new Headers({ 'accept-language': 'en' });
+      expect(createCacheKey('https://example.com/a', ja, ['accept-language'], options)).not.toBe(
+        createCacheKey('https://example.com/a', en, ['accept-language'], options)
+      );
+    });
+
+    it('varyHeadersに含まれないヘッダーはキーに影響しない', () => {
+      const chrome = new Headers({ 'user-agent': 'Chrome' });
+      const firefox = new Headers({ 'user-agent': 'Firefox' });
+      expect(createCacheKey('https://example.com/a', chrome, ['accept-language'], options)).toBe(
+        createCacheKey('https://example.com/a', firefox, ['accept-language'], options)
+      );
+    });
+
+    it('変換オプションが異なればキーが変わる', () => {
+      const headers = new Headers();
+      expect(createCacheKey('https://example.com/a', headers, [], options)).not.toBe(
+        createCacheKey('https://example.com/a', headers, [], {
+          turndown: { headingStyle: 'setext' },
+        })
+      );
+    });
+
+    it('parser・locale.frontMatterが異なればキーが変わる', () => {
+      const headers = new Headers();
+      const key = createCacheKey('https://example.com/a', headers, [], {});
+      expect(
+        createCacheKey('https://example.com/a', headers, [], {
+          parser: (html: string) => html,
+        })
+      ).not.toBe(key);
+      expect(
+        createCacheKey('https://example.com/a', headers, [], { locale: { frontMatter: true } })
+      ).not.toBe(key);
+    });
+  });
+
+  describe('loadWithCache', () => {
+    const policy = { maxAge: 60, staleWhileRevalidate: 30 };
+
+    it('エントリがない場合は変換してMISSを返し、結果を保存する', async () => {
+      const store = createMemoryCacheStore();
+      const load = vi.fn(async () => ({ markdown: '# Fresh', createdAt: Date.now() }));
+
+      const first = await loadWithCache(store, 'key', policy, load);
+      const second = await loadWithCache(store, 'key', policy, load);
+
+      expect(first.status).toBe('MISS');
+      expect(second.status).toBe('HIT');
+      expect((second.result as CacheEntry).markdown).toBe('# Fresh');
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('猶予期間内は古いエントリを返しつつバックグラウンドで再変換する', async () => {
+      const store = createMemoryCacheStore();
+      await loadWithCache(store, 'key', policy, async () => ({
+        markdown: '# Old',
+        createdAt: Date.now(),
+      }));
+
+      vi.advanceTimersByTime(70 * 1000);
+      const load = vi.fn(async () => ({ markdown: '# New', createdAt: Date.now() }));
+      const stale = await loadWithCache(store, 'key', policy, load);
+      // 同時に来たリクエストでは再変換を重複させない
+      await loadWithCache(store, 'key', policy, load);
+
+      expect(stale.status).toBe('STALE');
+      expect((stale.result as CacheEntry).markdown).toBe('# Old');
+      expect(load).toHaveBeenCalledTimes(1);
+
+      await vi.waitFor(async () => {
+        const fresh = await loadWithCache(store, 'key', policy, load);
+        expect(fresh.status).toBe('HIT');
+        expect((fresh.result as CacheEntry).markdown).toBe('# New');
+      });
+    });
+
+    it('エラーレスポンスはキャッシュしない', async () => {
+      const store = createMemoryCacheStore();
+      const load = vi.fn(async () => new Response('Not Found', { status: 404 }));
+
+      await loadWithCache(store, 'key', policy, load);
+      const second = await loadWithCache(store, 'key', policy, load);
+
+      expect(second.status).toBe('MISS');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('ストアのエラーはキャッシュミスとして扱う', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const store: CacheStore = {
+        get: async () => {
+          throw new Error('connection refused');
+        },
+        set: async () => {
+          throw new Error('connection refused');
+        },
+        delete: async () => {},
+      };
+
+      const { result, status } = await loadWithCache(store, 'key', policy, async () => ({
+        markdown: '# Test',
+        createdAt: Date.now(),
+      }));
+
+      expect(status).toBe('MISS');
+      expect((result as CacheEntry).markdown).toBe('# Test');
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('loadOnce', () => {
+    it('同じキーの同時の読み込みは1回にまとめる', async () => {
+      const scope = {};
+      const load = vi.fn(async () => ({ markdown: '# Test', createdAt: Date.now() }));
+
+      const results = await Promise.all([
+        loadOnce(scope, 'key', load),
+        loadOnce(scope, 'key', load),
+        loadOnce(scope, 'other', load),
+      ]);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(results[0]).toBe(results[1]);
+    });
+
+    it('完了した読み込みは共有しない', async () => {
+      const scope = {};
+      const load = vi.fn(async () => ({ markdown: '# Test', createdAt: Date.now() }));
+
+      await loadOnce(scope, 'key', load);
+      await loadOnce(scope, 'key', load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('Responseは呼び出しごとに複製し、本文をそれぞれ読めるようにする', async () => {
+      const scope = {};
+      const load = async () => new Response('Not Found', { status: 404 });
+
+      const [first, second] = await Promise.all([
+        loadOnce(scope, 'key', load),
+        loadOnce(scope, 'key', load),
+      ]);
+
+      expect(first).not.toBe(second);
+      expect(await (first as Response).text()).toBe('Not Found');
+      expect(await (second as Response).text()).toBe('Not Found');
+    });
+
+    it('読み込みのエラーを待機中のすべての呼び出しに返す', async () => {
+      const scope = {};
+      const load = vi.fn(async () => {
+        throw new Error('failed');
+      });
+
+      const results = await Promise.allSettled([
+        loadOnce(scope, 'key', load),
+        loadOnce(scope, 'key', load),
+      ]);
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+});
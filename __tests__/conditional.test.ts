@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createETag, isNotModified } from '../src/conditional';
+
+describe('conditional', () => {
+  describe('createETag', () => {
+    it('同じ本文からは同じ強いETagを作成する', async () => {
+      const etag = await createETag('# Hello');
+      expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+      expect(await createETag('# Hello')).toBe(etag);
+    });
+
+    it('本文が異なればETagも異なる', async () => {
+      expect(await createETag('# Hello')).not.toBe(await createETag('# World'));
+    });
+  });
+
+  describe('isNotModified', () => {
+    const etag = '"abc"';
+    const lastModified = 'Wed, 01 Jan 2025 00:00:00 GMT';
+    const createRequest = (headers: Record<string, string>, method = 'GET') =>
+      new Request('http://localhost:3000/test.md', { method, headers });
+
+    it('If-None-MatchがETagに一致する場合はtrueを返す', () => {
+      expect(isNotModified(createRequest({ 'if-none-match': '"xyz", "abc"' }), { etag })).toBe(
+        true
+      );
+      expect(isNotModified(createRequest({ 'if-none-match': 'W/"abc"' }), { etag })).toBe(true);
+      expect(isNotModified(createRequest({ 'if-none-match': '*' }), { etag })).toBe(true);
+    });
+
+    it('If-None-MatchがETagに一致しない場合はfalseを返す', () => {
+      expect(isNotModified(createRequest({ 'if-none-match': '"xyz"' }), { etag })).toBe(false);
+    });
+
+    it('If-Modified-Since以前に更新されていない場合はtrueを返す', () => {
+      const request = createRequest({ 'if-modified-since': lastModified });
+      expect(isNotModified(request, { lastModified })).toBe(true);
+      expect(isNotModified(request, { lastModified: 'Thu, 02 Jan 2025 00:00:00 GMT' })).toBe(false);
+    });
+
+    it('If-None-Matchがある場合はIf-Modified-Sinceを無視する', () => {
+      const request = createRequest({
+        'if-none-match': '"xyz"',
+        'if-modified-since': lastModified,
+      });
+      expect(isNotModified(request, { etag, lastModified })).toBe(false);
+    });
+
+    it('GET/HEAD以外のリクエストではfalseを返す', () => {
+      expect(isNotModified(createRequest({ 'if-none-match': '"abc"' }, 'POST'), { etag })).toBe(
+        false
+      );
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { convertHtmlToMarkdown, resetTurndownService } from '../src/converter';
 
 describe('converter', () => {
@@ -40,5 +40,72 @@ describe('converter', () => {
     expect(markdown).toContain('```');
     expect(markdown).toContain('const x = 1;');
   });
-});
 
+  it('contentオプションで本文のみを変換する', () => {
+    const html =
+      '<html><head><title>Page</title></head><body><nav><a href="/">Home</a></nav><main><h1>Title</h1><p>Body</p></main><footer>Copyright</footer></body></html>';
+    const markdown = convertHtmlToMarkdown(html, 'http://example.com', undefined, {
+      content: {},
+    });
+    expect(markdown).toContain('# Title');
+    expect(markdown).toContain('Body');
+    expect(markdown).not.toContain('Home');
+    expect(markdown).not.toContain('Copyright');
+  });
+
+  describe('プラグイン', () => {
+    it('rules・keep・removeをTurndownServiceに適用する', () => {
+      const html = '<p>Text <mark>marked</mark></p><del>deleted</del><iframe src="x"></iframe>';
+      const markdown = convertHtmlToMarkdown(html, 'http://example.com', {
+        rules: {
+          mark: { filter: 'mark', replacement: (content) => `==${content}==` },
+        },
+        keep: ['iframe'],
+        remove: ['del'],
+      });
+      expect(markdown).toContain('Text ==marked==');
+      expect(markdown).toContain('<iframe src="x"></iframe>');
+      expect(markdown).not.toContain('deleted');
+    });
+
+    it('プリプロセッサーとポストプロセッサーを順に適用する', () => {
+      const markdown = convertHtmlToMarkdown('<h1>Title</h1><p class="ad">Ad</p>', 'http://example.com', {
+        plugins: [
+          {
+            name: 'strip-ads',
+            preprocess: (document) => {
+              for (const element of Array.from(document.querySelectorAll('.ad'))) {
+                element.remove();
+              }
+            },
+          },
+          { postprocess: (result) => `${result}\n\n---\nfooter` },
+          { postprocess: (result) => result.toUpperCase() },
+        ],
+      });
+      expect(markdown).toBe('# TITLE\n\n---\nFOOTER');
+    });
+
+    it('Turndownプラグイン関数をuse()で適用する', () => {
+      const plugin = vi.fn((service) => {
+        service.addRule('strong', { filter: 'strong', replacement: (content: string) => `!${content}!` });
+      });
+      const markdown = convertHtmlToMarkdown('<strong>bold</strong>', 'http://example.com', {
+        plugins: [plugin],
+      });
+      expect(markdown).toBe('!bold!');
+    });
+
+    it('同じオプションオブジェクトではTurndownServiceを再利用する', () => {
+      const setup = vi.fn();
+      const options = { plugins: [{ setup }] };
+      convertHtmlToMarkdown('<p>1</p>', 'http://example.com', options);
+      convertHtmlToMarkdown('<p>2</p>', 'http://example.com', options);
+      expect(setup).toHaveBeenCalledTimes(1);
+
+      resetTurndownService();
+      convertHtmlToMarkdown('<p>3</p>', 'http://example.com', options);
+      expect(setup).toHaveBeenCalledTimes(2);
+    });
+  });
+});
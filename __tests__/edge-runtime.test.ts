@@ -1,6 +1,10 @@
+// @vitest-environment edge-runtime
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
 import { NextRequest } from 'next/server';
 import { handleMarkdownRequest } from '../src/middleware';
+import { convertHtmlToMarkdown } from '../src/converter';
 
 /**
  * Edge Runtime互換性のテスト
@@ -51,11 +55,67 @@ describe('Edge Runtime Compatibility', () => {
     // - require('fs')
     // - require('path')
     // - require('crypto')
+    // - jsdom（Node.js専用のDOM実装）
     // - process.env（環境変数はNext.js経由で取得可能）
+    // ビルド時に使用するNode.js専用モジュール（パッケージのルートからはexportしない）
+    const nodeOnlyModules = ['cli.ts', 'static-export.ts'];
+    const srcDir = join(__dirname, '../src');
+    const index = readFileSync(join(srcDir, 'index.ts'), 'utf-8');
+    for (const file of nodeOnlyModules) {
+      expect(index).not.toContain(`'./${file.replace(/\.ts$/, '')}'`);
+    }
 
-    // コード内でNode.js固有のAPIを使用していないことを確認
-    // （これは静的解析で確認する必要があるが、テストでは実行時エラーを確認）
-    expect(true).toBe(true); // このテストは主にドキュメント目的
+    for (const file of readdirSync(srcDir).filter(
+      (name) => name.endsWith('.ts') && !nodeOnlyModules.includes(name),
+    )) {
+      const source = readFileSync(join(srcDir, file), 'utf-8');
+      const imports = Array.from(
+        source.matchAll(/^import[^'"]*['"]([^'"]+)['"]/gm),
+        (match) => match[1],
+      );
+      for (const specifier of imports) {
+        expect(
+          specifier === 'jsdom' ||
+            specifier.startsWith('node:') ||
+            ['fs', 'path', 'crypto'].includes(specifier),
+          `${file}: ${specifier}`,
+        ).toBe(false);
+      }
+      expect(source, file).not.toMatch(/process\.env/);
+    }
+  });
+
+  it('DOMParserやjsdomなしで本文抽出・フロントマター付きの変換ができる', () => {
+    expect(typeof (globalThis as { DOMParser?: unknown }).DOMParser).toBe(
+      'undefined',
+    );
+
+    const html = `<html lang="ja"><head><title>Edge</title></head><body>
+      <nav>Menu</nav>
+      <main><h1>Edge Runtime</h1><p>Hello <del>old</del></p>
+      <table><tr><th>A</th></tr><tr><td>1</td></tr></table></main>
+      </body></html>`;
+    const markdown = convertHtmlToMarkdown(
+      html,
+      'https://example.com/edge',
+      { flavor: 'gfm' },
+      { content: {}, frontMatter: true },
+    );
+
+    expect(markdown).toContain('title: "Edge"');
+    expect(markdown).toContain('# Edge Runtime');
+    expect(markdown).toContain('~~old~~');
+    expect(markdown).toContain('| A |');
+    expect(markdown).not.toContain('Menu');
+  });
+
+  it('DOM操作なしの変換もDOMParserなしで動作する', () => {
+    expect(
+      convertHtmlToMarkdown(
+        '<html><body><h1>Test</h1></body></html>',
+        'https://example.com/',
+      ),
+    ).toContain('# Test');
   });
 
   it('fetch APIが正常に動作する', async () => {
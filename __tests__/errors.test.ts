@@ -0,0 +1,322 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MarkdownError,
+  PayloadTooLarge,
+  SsrfRejected,
+  UpstreamNotFound,
+  renderError,
+} from '../src/errors';
+import { createLlmsTxtHandler } from '../src/llms';
+import { createMarkdownApiRoute } from '../src/pages-router';
+import { runMarkdownPipeline } from '../src/pipeline';
+import { mockFetchHtml } from './helpers/fetch';
+
+const PROBLEM_TYPE_BASE =
+  'https://github.com/hideokamoto/nextjs-html-to-markdown-middleware/blob/main/docs/ERRORS.md#';
+
+function createRequest(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost:3000/about.md', {
+    headers: { host: 'localhost:3000', ...headers },
+  });
+}
+
+describe('errors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('MarkdownError', () => {
+    it('Problem Detailsに変換する', () => {
+      const error = new PayloadTooLarge(100);
+
+      expect(error).toBeInstanceOf(MarkdownError);
+      expect(error.toProblem('/about.md')).toEqual({
+        type: `${PROBLEM_TYPE_BASE}payload-too-large`,
+        title: 'Payload Too Large',
+        status: 413,
+        detail: 'Request Entity Too Large: the page exceeds 100 bytes',
+        instance: '/about.md',
+      });
+    });
+
+    it('種類を指定しない場合はerrorとする', () => {
+      const error = new MarkdownError(500, 'Internal Server Error');
+
+      expect(error.toProblem()).toEqual({
+        type: `${PROBLEM_TYPE_BASE}error`,
+        title: 'Internal Server Error',
+        status: 500,
+      });
+      expect(error.reason).toBe('error');
+    });
+  });
+
+  describe('renderError', () => {
+    it('デフォルトではapplication/problem+jsonで返す', async () => {
+      const response = renderError(new UpstreamNotFound(), createRequest());
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get('content-type')).toBe('application/problem+json');
+      expect(await response.json()).toEqual({
+        type: `${PROBLEM_TYPE_BASE}upstream-not-found`,
+        title: 'Not Found',
+        status: 404,
+        detail: 'The page was not found',
+        instance: '/about.md',
+      });
+    });
+
+    it('errorFormatがmarkdownの場合はMarkdownのエラー文書で返す', async () => {
+      const response = renderError(new UpstreamNotFound(), createRequest(), {
+        errorFormat: 'markdown',
+      });
+
+      expect(response.headers.get('content-type')).toBe('text/markdown; charset=utf-8');
+      expect(await response.text()).toBe(
+        [
+          '# 404 Not Found',
+          '',
+          'The page was not found',
+          '',
+          '- Status: 404',
+          `- Type: <${PROBLEM_TYPE_BASE}upstream-not-found>`,
+          '- Instance: /about.md',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('errorFormatがautoの場合はAcceptヘッダーで形式を選ぶ', () => {
+      const options = { errorFormat: 'auto' as const };
+
+      expect(
+        renderError(
+          new UpstreamNotFound(),
+          createRequest({ accept: 'text/markdown' }),
+          options
+        ).headers.get('content-type')
+      ).toBe('text/markdown; charset=utf-8');
+      expect(
+        renderError(
+          new UpstreamNotFound(),
+          createRequest({ accept: 'application/problem+json' }),
+          options
+        ).headers.get('content-type')
+      ).toBe('application/problem+json');
+    });
+
+    it('エラーのヘッダーを付与する', () => {
+      const error = new MarkdownError(429, 'Too Many Requests', {
+        headers: { 'Retry-After': '10' },
+      });
+
+      expect(renderError(error).headers.get('retry-after')).toBe('10');
+    });
+  });
+
+  describe('パイプライン', () => {
+    it('元のページの404をProblem Detailsで返す', async () => {
+      mockFetchHtml('Not Found', { status: 404 });
+
+      const response = await runMarkdownPipeline(createRequest(), { path: '/about' });
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get('content-type')).toBe('application/problem+json');
+      expect(await response.json()).toMatchObject({ title: 'Not Found', status: 404 });
+    });
+
+    it('元のページの404以外のエラーは502とし、元のステータスをdetailに含める', async () => {
+      global.fetch = vi.fn().mockResolvedValue(new Response(null, { status: 304 }));
+
+      const response = await runMarkdownPipeline(createRequest(), { path: '/about' });
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toMatchObject({
+        type: `${PROBLEM_TYPE_BASE}upstream-error`,
+        title: 'Bad Gateway',
+        detail: 'Failed to fetch: the page returned 304',
+      });
+    });
+
+    it('onErrorに種類ごとのエラーを渡す', async () => {
+      mockFetchHtml('Not Found', { status: 404 });
+      const onError = vi.fn((error: MarkdownError) =>
+        error instanceof UpstreamNotFound ? new Response('custom', { status: 404 }) : null
+      );
+
+      const response = await runMarkdownPipeline(createRequest(), { path: '/about' }, { onError });
+
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(UpstreamNotFound);
+      expect(await response.text()).toBe('custom');
+    });
+
+    it('SSRF対策で拒否した理由をSsrfRejectedで渡す', async () => {
+      const onError = vi.fn(() => null);
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '//evil.com/page' },
+        { onError }
+      );
+
+      const [[error]] = onError.mock.calls as unknown as [[SsrfRejected]];
+      expect(error).toBeInstanceOf(SsrfRejected);
+      expect(error.validationReason).toBe('host-not-allowed');
+      expect(response.status).toBe(403);
+    });
+
+    it('予期しないエラーは内部の情報を含めずに500で返し、元のエラーはcauseに保持する', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const cause = new Error('connect ECONNREFUSED 10.0.0.1:3000');
+      global.fetch = vi.fn().mockRejectedValue(cause);
+      const onError = vi.fn(() => null);
+
+      const response = await runMarkdownPipeline(createRequest(), { path: '/about' }, { onError });
+
+      const [[error]] = onError.mock.calls as unknown as [[MarkdownError]];
+      expect(error).toMatchObject({ status: 500, type: 'internal-error', cause });
+      expect(response.status).toBe(500);
+      expect(await response.text()).not.toContain('ECONNREFUSED');
+    });
+  });
+
+  describe('onError', () => {
+    it('非同期のハンドラーの完了を待ってレスポンスを返す', async () => {
+      mockFetchHtml('Not Found', { status: 404 });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        {
+          onError: async (error) => {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            return new Response(`custom ${error.status}`, { status: error.status });
+          },
+        }
+      );
+
+      expect(response.status).toBe(404);
+      expect(await response.text()).toBe('custom 404');
+    });
+
+    it('ハンドラーがthrowした場合はデフォルトのエラーレスポンスを返す', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchHtml('Not Found', { status: 404 });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        {
+          onError: async () => {
+            throw new Error('handler failed');
+          },
+        }
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get('content-type')).toBe('application/problem+json');
+      expect(consoleSpy).toHaveBeenCalledWith('Markdown error handler error:', expect.any(Error));
+    });
+
+    it('413・415・504でも呼び出す', async () => {
+      const onError = vi.fn(async () => null);
+
+      mockFetchHtml(`<html><body>${'a'.repeat(200)}</body></html>`);
+      await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        { onError, maxRequestSize: 100 }
+      );
+      mockFetchHtml('{}', { headers: { 'content-type': 'application/json' } });
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, { onError });
+      global.fetch = vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, { onError });
+
+      expect(onError.mock.calls.map(([error]) => (error as MarkdownError).status)).toEqual([
+        413, 415, 504,
+      ]);
+    });
+
+    it('llms.txtのエラーでも呼び出す', async () => {
+      const onError = vi.fn(async () => new Response('custom', { status: 403 }));
+      const request = new NextRequest('http://localhost:3000/llms.txt', {
+        headers: { host: 'localhost:3000' },
+      });
+
+      const response = await createLlmsTxtHandler({
+        pages: ['/'],
+        allowedHosts: ['example.com'],
+        onError,
+      })(request);
+
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(SsrfRejected);
+      expect(await response.text()).toBe('custom');
+    });
+  });
+
+  describe('Pages Router', () => {
+    it('GET/HEAD以外のメソッドはProblem Detailsの405を返す', async () => {
+      global.fetch = vi.fn();
+      const sent = { status: 0, headers: {} as Record<string, string>, body: undefined as unknown };
+      const res = {
+        status: vi.fn((code: number) => {
+          sent.status = code;
+          return res;
+        }),
+        setHeader: vi.fn((name: string, value: string) => {
+          sent.headers[name.toLowerCase()] = value;
+          return res;
+        }),
+        end: vi.fn((body?: unknown) => {
+          sent.body = body;
+          return res;
+        }),
+      };
+      const req = {
+        method: 'POST',
+        url: '/api/markdown/about',
+        headers: { host: 'localhost:3000' },
+        query: { path: ['about'] },
+      } as unknown as NextApiRequest;
+
+      await createMarkdownApiRoute()(req, res as unknown as NextApiResponse);
+
+      expect(sent.status).toBe(405);
+      expect(sent.headers['content-type']).toBe('application/problem+json');
+      expect(JSON.parse(String(sent.body))).toMatchObject({
+        type: `${PROBLEM_TYPE_BASE}method-not-allowed`,
+        status: 405,
+      });
+    });
+
+    it('405でもonErrorを呼び出す', async () => {
+      const onError = vi.fn(
+        async (error: MarkdownError) => new Response(error.title, { status: 405 })
+      );
+      const res = {
+        status: vi.fn(() => res),
+        setHeader: vi.fn(() => res),
+        end: vi.fn(() => res),
+      };
+      const req = {
+        method: 'DELETE',
+        url: '/api/markdown/about',
+        headers: { host: 'localhost:3000' },
+        query: { path: ['about'] },
+      } as unknown as NextApiRequest;
+
+      await createMarkdownApiRoute({ onError })(req, res as unknown as NextApiResponse);
+
+      expect(onError.mock.calls[0][0]).toMatchObject({ status: 405, type: 'method-not-allowed' });
+      expect(res.end).toHaveBeenCalledWith('Method Not Allowed');
+    });
+  });
+});
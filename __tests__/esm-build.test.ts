@@ -0,0 +1,67 @@
+import { execFileSync } from 'node:child_process';
+import { copyFile, mkdtemp, rm, symlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const ROOT = resolve(__dirname, '..');
+
+/**
+ * パッケージ名でESMのエントリーポイントを読み込み、エクスポート名を返す
+ */
+function importEntry(cwd: string, specifier: string): string[] {
+  const output = execFileSync(
+    process.execPath,
+    [
+      '--input-type=module',
+      '-e',
+      `const m = await import(${JSON.stringify(specifier)}); console.log(JSON.stringify(Object.keys(m)));`,
+    ],
+    { cwd, encoding: 'utf8' }
+  );
+  return JSON.parse(output);
+}
+
+describe('ESMビルド', () => {
+  let dir: string;
+
+  // package.jsonのexportsどおりに読み込めるよう、ビルド結果をパッケージの構成で一時ディレクトリに出力する
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'next-markdown-esm-'));
+    const outDir = join(dir, 'dist');
+    execFileSync(
+      process.execPath,
+      [
+        join(ROOT, 'node_modules', 'typescript', 'bin', 'tsc'),
+        '--project',
+        join(ROOT, 'tsconfig.json'),
+        '--outDir',
+        outDir,
+        '--declaration',
+        'false',
+        '--declarationMap',
+        'false',
+      ],
+      { cwd: ROOT }
+    );
+    execFileSync(process.execPath, [join(ROOT, 'scripts', 'add-esm-extensions.cjs'), outDir]);
+    await copyFile(join(ROOT, 'package.json'), join(dir, 'package.json'));
+    await symlink(join(ROOT, 'node_modules'), join(dir, 'node_modules'), 'dir');
+  }, 120_000);
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('ルートのエントリーポイントをNode.jsのESMとして読み込める', () => {
+    expect(importEntry(dir, 'next-markdown-middleware')).toEqual(
+      expect.arrayContaining(['createMarkdownMiddleware', 'createLlmsTxtHandler'])
+    );
+  });
+
+  it('static-exportのエントリーポイントをNode.jsのESMとして読み込める', () => {
+    expect(importEntry(dir, 'next-markdown-middleware/static-export')).toEqual(
+      expect.arrayContaining(['exportStaticMarkdown'])
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { JSDOM } from 'jsdom';
+import { describe, expect, it } from 'vitest';
+import { applySelectorRules, extractMainContent } from '../src/extractor';
+
+/**
+ * テスト用のドキュメントを作成するヘルパー関数
+ */
+function createDocument(body: string): Document {
+  return new JSDOM(`<html><head><title>Test</title></head><body>${body}</body></html>`).window
+    .document;
+}
+
+const ARTICLE_TEXT =
+  'この段落は記事の本文です、十分な長さがあり、読点も含まれています。This paragraph is long enough, with commas, to be scored as content.';
+
+describe('extractor', () => {
+  describe('extractMainContent', () => {
+    it('<main>要素を本文として選択する', () => {
+      const document = createDocument(
+        `<nav>Menu</nav><main><h1>Title</h1><p>${ARTICLE_TEXT}</p></main><footer>Footer</footer>`
+      );
+      const root = extractMainContent(document);
+      expect(root.tagName).toBe('MAIN');
+      expect(root.textContent).toContain('Title');
+    });
+
+    it('[data-markdown-root]を<main>より優先する', () => {
+      const document = createDocument(
+        '<main><div data-markdown-root><p>Root</p></div><p>Other</p></main>'
+      );
+      const root = extractMainContent(document);
+      expect(root.hasAttribute('data-markdown-root')).toBe(true);
+    });
+
+    it('rootSelectorsで本文ルートを上書きできる', () => {
+      const document = createDocument(
+        '<main><div class="prose"><p>Prose</p></div><p>Other</p></main>'
+      );
+      const root = extractMainContent(document, { rootSelectors: ['.prose'] });
+      expect(root.className).toBe('prose');
+    });
+
+    it('本文ルート内のボイラープレートを除去する', () => {
+      const document = createDocument(
+        `<article><p>${ARTICLE_TEXT}</p><div class="cookie-banner">Accept cookies</div><script>x()</script></article>`
+      );
+      const root = extractMainContent(document);
+      expect(root.textContent).not.toContain('Accept cookies');
+      expect(root.textContent).not.toContain('x()');
+    });
+
+    it('セレクターにマッチしない場合はスコアリングで本文を推定する', () => {
+      const document = createDocument(`
+        <div id="header">Site header <a href="/">Home</a></div>
+        <div class="links"><p><a href="/a">Link A long enough to be scored here</a></p></div>
+        <div class="post-content"><p>${ARTICLE_TEXT}</p><p>${ARTICLE_TEXT}</p></div>
+        <div class="sidebar"><p>${ARTICLE_TEXT}</p></div>
+      `);
+      const root = extractMainContent(document);
+      expect(root.className).toBe('post-content');
+    });
+
+    it('mode: fullの場合は<body>をそのまま返す', () => {
+      const document = createDocument('<nav>Menu</nav><main><p>Body</p></main>');
+      const root = extractMainContent(document, { mode: 'full' });
+      expect(root.tagName).toBe('BODY');
+      expect(root.textContent).toContain('Menu');
+    });
+  });
+
+  describe('applySelectorRules', () => {
+    it('removeセレクターにマッチする要素を除去する', () => {
+      const document = createDocument(
+        '<main><p>Body</p><div class="ad">Ad</div><span aria-hidden="true">Icon</span></main>'
+      );
+      const root = applySelectorRules(document, { remove: ['.ad', '[aria-hidden=true]'] });
+      expect(root).toBeNull();
+      expect(document.body.textContent).not.toContain('Ad');
+      expect(document.body.textContent).not.toContain('Icon');
+    });
+
+    it('includeセレクターにマッチする要素を文書順にまとめる', () => {
+      const document = createDocument(
+        '<main><div class="prose">First<div class="prose">Nested</div></div><p>Other</p><div class="prose">Second</div></main>'
+      );
+      const root = applySelectorRules(document, { include: ['main .prose'] });
+      expect(root?.children).toHaveLength(2);
+      expect(root?.textContent).toBe('FirstNestedSecond');
+    });
+
+    it('includeにマッチする要素がない場合はnullを返す', () => {
+      const document = createDocument('<main><p>Body</p></main>');
+      expect(applySelectorRules(document, { include: ['.missing'] })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { JSDOM } from 'jsdom';
+import { NextRequest } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { convertHtmlToMarkdown } from '../src/converter';
+import { extractPageMetadata, serializeFrontMatter } from '../src/front-matter';
+import { handleMarkdownRequest } from '../src/middleware';
+
+const HTML = `<!doctype html>
+<html lang="ja">
+  <head>
+    <title>About us</title>
+    <meta name="description" content="Company profile">
+    <link rel="canonical" href="/about">
+    <meta property="og:title" content="About OG">
+    <meta property="og:type" content="article">
+    <meta property="article:published_time" content="2025-01-02T03:04:05Z">
+    <script type="application/ld+json">{"@type":"Article","dateModified":"2025-02-03"}</script>
+    <script type="application/ld+json">{invalid</script>
+  </head>
+  <body><h1>About</h1></body>
+</html>`;
+
+describe('front-matter', () => {
+  describe('extractPageMetadata', () => {
+    it('<head>と構造化データからメタデータを抽出する', () => {
+      const { document } = new JSDOM(HTML).window;
+      expect(extractPageMetadata(document, 'https://example.com/about.md')).toEqual({
+        title: 'About us',
+        description: 'Company profile',
+        url: 'https://example.com/about',
+        lang: 'ja',
+        datePublished: '2025-01-02T03:04:05Z',
+        dateModified: '2025-02-03',
+        og: { title: 'About OG', type: 'article' },
+        jsonLd: [{ '@type': 'Article', dateModified: '2025-02-03' }],
+      });
+    });
+
+    it('canonicalがない場合はページのURLを使用する', () => {
+      const { document } = new JSDOM('<html><head></head><body></body></html>').window;
+      expect(extractPageMetadata(document, 'https://example.com/page')).toEqual({
+        url: 'https://example.com/page',
+      });
+    });
+  });
+
+  describe('serializeFrontMatter', () => {
+    const fields = {
+      title: 'Say "hi"',
+      draft: false,
+      tags: ['a', 'b'],
+      og: { type: 'article' },
+      jsonLd: [{ '@type': 'Article' }],
+      skipped: undefined,
+    };
+
+    it('YAML形式で出力する', () => {
+      expect(serializeFrontMatter(fields)).toBe(
+        [
+          '---',
+          'title: "Say \\"hi\\""',
+          'draft: false',
+          'tags:',
+          '  - "a"',
+          '  - "b"',
+          'og:',
+          '  type: "article"',
+          'jsonLd:',
+          '  - {"@type":"Article"}',
+          '---',
+        ].join('\n')
+      );
+    });
+
+    it('TOML形式で出力する', () => {
+      expect(serializeFrontMatter(fields, 'toml')).toBe(
+        [
+          '+++',
+          'title = "Say \\"hi\\""',
+          'draft = false',
+          'tags = ["a", "b"]',
+          'jsonLd = [{ "@type" = "Article" }]',
+          '',
+          '[og]',
+          'type = "article"',
+          '+++',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('convertHtmlToMarkdown', () => {
+    it('frontMatterオプションでフロントマターを先頭に付与する', () => {
+      const markdown = convertHtmlToMarkdown(HTML, 'https://example.com/about', undefined, {
+        frontMatter: { transform: ({ jsonLd, og, ...fields }) => ({ ...fields, author: 'me' }) },
+      });
+      expect(markdown).toMatch(/^---\ntitle: "About us"\n/);
+      expect(markdown).toContain('author: "me"');
+      expect(markdown).not.toContain('jsonLd');
+      expect(markdown).toMatch(/---\n\n# About$/);
+    });
+  });
+
+  describe('handleMarkdownRequest', () => {
+    it('transformフックにリクエストを渡す', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response(HTML, { headers: { 'content-type': 'text/html' } }))
+      );
+      const transform = vi.fn((fields, request?: NextRequest) => ({
+        ...fields,
+        source: request?.nextUrl.pathname,
+      }));
+
+      const request = new NextRequest(new URL('http://localhost:3000/about.md'), {
+        headers: { host: 'localhost:3000' },
+      });
+      const result = await handleMarkdownRequest(request, {
+        frontMatter: { format: 'toml', transform },
+      });
+
+      const text = await result?.text();
+      expect(text).toMatch(/^\+\+\+\n/);
+      expect(text).toContain('source = "/about.md"');
+      expect(transform).toHaveBeenCalledWith(expect.any(Object), request);
+      vi.unstubAllGlobals();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { convertHtmlToMarkdown, resetTurndownService } from '../src/converter';
+
+/**
+ * GFMモードでHTMLを変換するヘルパー関数
+ */
+function convertGfm(html: string): string {
+  return convertHtmlToMarkdown(html, 'http://example.com', { flavor: 'gfm' });
+}
+
+describe('gfm', () => {
+  beforeEach(() => {
+    resetTurndownService();
+  });
+
+  describe('テーブル', () => {
+    it('パイプテーブルに変換する', () => {
+      const html = `
+        <table>
+          <thead><tr><th>Plan</th><th align="right">Price</th><th style="text-align: center">Seats</th></tr></thead>
+          <tbody>
+            <tr><td><strong>Pro</strong></td><td>$10</td><td>5</td></tr>
+            <tr><td>A | B</td><td></td></tr>
+          </tbody>
+        </table>`;
+      expect(convertGfm(html)).toBe(
+        [
+          '| Plan | Price | Seats |',
+          '| --- | ---: | :---: |',
+          '| **Pro** | $10 | 5 |',
+          '| A \\| B |  |  |',
+        ].join('\n')
+      );
+    });
+
+    it('見出し行がない場合は最初の行を見出しとして扱う', () => {
+      const html = '<table><tr><td>a</td><td>b</td></tr><tr><td>c</td><td>d</td></tr></table>';
+      expect(convertGfm(html)).toBe('| a | b |\n| --- | --- |\n| c | d |');
+    });
+
+    it('キャプションをテーブルの前に出力する', () => {
+      const html = '<table><caption>Prices</caption><tr><th>A</th></tr></table>';
+      expect(convertGfm(html)).toBe('Prices\n\n| A |\n| --- |');
+    });
+
+    it('セル結合を含むテーブルはHTMLのまま出力する', () => {
+      const html =
+        '<table><tr><th colspan="2">Merged</th></tr><tr><td>a</td><td>b</td></tr></table>';
+      const markdown = convertGfm(html);
+      expect(markdown).toContain('<table>');
+      expect(markdown).toContain('colspan="2"');
+    });
+  });
+
+  it('取り消し線に変換する', () => {
+    expect(convertGfm('<p><del>old</del> <s>gone</s> <strike>removed</strike></p>')).toBe(
+      '~~old~~ ~~gone~~ ~~removed~~'
+    );
+  });
+
+  it('タスクリストに変換する', () => {
+    const html =
+      '<ul><li><input type="checkbox" checked> Done</li><li><input type="checkbox"> Todo</li></ul>';
+    expect(convertGfm(html)).toBe('-   [x] Done\n-   [ ] Todo');
+  });
+
+  it('commonmarkの場合はGFM拡張を適用しない', () => {
+    const markdown = convertHtmlToMarkdown('<del>old</del>', 'http://example.com', {
+      flavor: 'commonmark',
+    });
+    expect(markdown).toBe('old');
+  });
+});
@@ -0,0 +1,20 @@
+import { vi } from 'vitest';
+
+/**
+ * 指定した本文をHTMLとして返すfetchのモックを設定
+ *
+ * @param html - レスポンスの本文
+ * @param init - ステータスコードや追加のヘッダー（Content-Typeも上書きできる）
+ * @returns fetchのモック
+ */
+export function mockFetchHtml(html: string, init: ResponseInit = {}) {
+  const fetchMock = vi.fn().mockImplementation(
+    async () =>
+      new Response(html, {
+        ...init,
+        headers: { 'content-type': 'text/html', ...init.headers },
+      })
+  );
+  global.fetch = fetchMock;
+  return fetchMock;
+}
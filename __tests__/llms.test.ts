@@ -0,0 +1,314 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheStore } from '../src/cache';
+import { createLlmsTxtHandler } from '../src/llms';
+
+const PAGES: Record<string, string> = {
+  '/': '<html><head><title>Home</title><meta name="description" content="Top page"></head><body><main><h1>Welcome</h1><p>Hello</p></main></body></html>',
+  '/docs/intro':
+    '<html><head><title>Intro</title></head><body><main><h1>Intro</h1><p>Getting started</p></main></body></html>',
+};
+
+function mockSite(sitemap?: string) {
+  const fetchMock = vi.fn().mockImplementation(async (input: string) => {
+    const { pathname } = new URL(input);
+    if (pathname === '/sitemap.xml' && sitemap) {
+      return new Response(sitemap, { headers: { 'content-type': 'application/xml' } });
+    }
+    const html = PAGES[pathname];
+    if (!html) {
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(html, { headers: { 'content-type': 'text/html' } });
+  });
+  global.fetch = fetchMock;
+  return fetchMock;
+}
+
+function createRequest(pathname: string) {
+  return new NextRequest(`http://localhost:3000${pathname}`, {
+    headers: { host: 'localhost:3000', 'x-forwarded-proto': 'http' },
+  });
+}
+
+describe('llms', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createLlmsTxtHandler', () => {
+    it('ページ一覧からllms.txtを生成する', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({
+        title: 'Example',
+        description: 'Example docs',
+        pages: ['/', { path: '/docs/intro', section: 'Docs' }, '/missing'],
+      });
+
+      const response = await handler(createRequest('/llms.txt'));
+      const text = await response.text();
+
+      expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+      expect(text).toContain('# Example\n\n> Example docs');
+      expect(text).toContain('## Pages\n\n- [Home](http://localhost:3000/index.md): Top page');
+      expect(text).toContain('## Docs\n\n- [Intro](http://localhost:3000/docs/intro.md)');
+      expect(text).not.toContain('missing');
+    });
+
+    it('タイトルと説明が指定されたページは取得しない', async () => {
+      const fetchMock = mockSite();
+      const handler = createLlmsTxtHandler({
+        pages: [{ path: '/docs/intro', title: 'Intro [v2]', description: 'Start here' }],
+      });
+
+      const text = await (await handler(createRequest('/llms.txt'))).text();
+
+      expect(text).toContain('- [Intro \\[v2\\]](http://localhost:3000/docs/intro.md): Start here');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('pagesを省略した場合はsitemapからページを収集する', async () => {
+      mockSite(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>http://localhost:3000/</loc></url>
+  <url><loc>http://localhost:3000/docs/intro</loc></url>
+  <url><loc>https://evil.example.com/page</loc></url>
+</urlset>`);
+      const handler = createLlmsTxtHandler();
+
+      const text = await (await handler(createRequest('/llms.txt'))).text();
+
+      expect(text).toContain('# localhost:3000');
+      expect(text).toContain('[Home]');
+      expect(text).toContain('[Intro]');
+      expect(text).not.toContain('evil.example.com');
+    });
+
+    it('originを指定した場合はsitemapとページを接続先から取得し、リンクには公開URLを使用する', async () => {
+      const fetchMock = mockSite(`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>http://localhost:3000/docs/intro</loc></url>
+</urlset>`);
+      const handler = createLlmsTxtHandler({ origin: 'http://10.0.0.5:8080' });
+
+      const text = await (await handler(createRequest('/llms.txt'))).text();
+
+      expect(fetchMock.mock.calls.map(([input]) => String(input))).toEqual([
+        'http://10.0.0.5:8080/sitemap.xml',
+        'http://10.0.0.5:8080/docs/intro',
+      ]);
+      expect(text).toContain('- [Intro](http://localhost:3000/docs/intro.md)');
+    });
+
+    it('llms-full.txtでは各ページのMarkdownを連結する', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/', '/docs/intro'] });
+
+      const text = await (await handler(createRequest('/llms-full.txt'))).text();
+
+      expect(text).toContain('Source: http://localhost:3000/\n');
+      expect(text).toContain('# Welcome');
+      expect(text).toContain('Source: http://localhost:3000/docs/intro\n');
+      expect(text).toContain('Getting started');
+    });
+
+    it('llms-full.txtが最大サイズを超える場合は以降のページを省略する', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/', '/docs/intro'], maxBytes: 120 });
+
+      const text = await (await handler(createRequest('/llms-full.txt'))).text();
+
+      expect(text).toContain('# Welcome');
+      expect(text).not.toContain('Getting started');
+      expect(text).toContain('1 pages omitted');
+    });
+
+    it('llms-full.txtが最大サイズに達した後のページは取得しない', async () => {
+      const fetchMock = mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/', '/docs/intro'], maxBytes: 10 });
+
+      const text = await (await handler(createRequest('/llms-full.txt'))).text();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(text).toContain('2 pages omitted');
+    });
+
+    it('ページの取得がタイムアウトした場合は504を返す', async () => {
+      global.fetch = vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      const handler = createLlmsTxtHandler({ pages: ['/', '/docs/intro'] });
+
+      const response = await handler(createRequest('/llms-full.txt'));
+
+      expect(response.status).toBe(504);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('maxPagesを超えるページは掲載しない', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/', '/docs/intro'], maxPages: 1 });
+
+      const text = await (await handler(createRequest('/llms.txt'))).text();
+
+      expect(text).toContain('[Home]');
+      expect(text).not.toContain('[Intro]');
+    });
+
+    it('storeを指定した場合は生成結果をキャッシュする', async () => {
+      const fetchMock = mockSite();
+      const handler = createLlmsTxtHandler({
+        pages: ['/'],
+        cache: { store: createMemoryCacheStore() },
+      });
+
+      const first = await handler(createRequest('/llms.txt'));
+      const second = await handler(createRequest('/llms.txt'));
+
+      expect(first.headers.get('X-Markdown-Cache')).toBe('MISS');
+      expect(second.headers.get('X-Markdown-Cache')).toBe('HIT');
+      expect(second.headers.get('Cache-Control')).toContain('max-age=3600');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('rateLimitの上限を超えたリクエストは429を返す', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/'], rateLimit: { capacity: 1 } });
+
+      const first = await handler(createRequest('/llms.txt'));
+      const second = await handler(createRequest('/llms.txt'));
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(429);
+      expect(second.headers.get('Retry-After')).toBeTruthy();
+      expect(await second.json()).toMatchObject({ status: 429, title: 'Too Many Requests' });
+    });
+
+    it('concurrencyの上限を超えた同時のリクエストは429を返す', async () => {
+      const fetchMock = mockSite();
+      const handler = createLlmsTxtHandler({
+        pages: ['/'],
+        concurrency: { maxInFlight: 1 },
+      });
+
+      const [first, second] = await Promise.all([
+        handler(createRequest('/llms.txt')),
+        handler(createRequest('/llms-full.txt')),
+      ]);
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(429);
+      expect(second.headers.get('Retry-After')).toBe('1');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('同時のリクエストは1回の生成を共有する', async () => {
+      const fetchMock = mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/', '/docs/intro'] });
+
+      const responses = await Promise.all([
+        handler(createRequest('/llms.txt')),
+        handler(createRequest('/llms.txt')),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await responses[0].text()).toBe(await responses[1].text());
+    });
+
+    it('pagesに関数を指定した場合は同時のリクエストをまとめない', async () => {
+      const fetchMock = mockSite();
+      const handler = createLlmsTxtHandler({
+        pages: (request) => [request.headers.get('x-page') ?? '/'],
+      });
+      const createPageRequest = (page: string) =>
+        new NextRequest('http://localhost:3000/llms.txt', {
+          headers: { host: 'localhost:3000', 'x-forwarded-proto': 'http', 'x-page': page },
+        });
+
+      const [home, intro] = await Promise.all([
+        handler(createPageRequest('/')),
+        handler(createPageRequest('/docs/intro')),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await home.text()).toContain('[Home]');
+      expect(await intro.text()).toContain('[Intro]');
+    });
+
+    it('mappingの形式でMarkdownのリンクを作成する', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({
+        pages: [{ path: '/docs/intro', title: 'Intro', description: 'Getting started' }],
+        mapping: { prefix: '/md' },
+      });
+
+      const text = await (await handler(createRequest('/llms.txt'))).text();
+
+      expect(text).toContain('- [Intro](http://localhost:3000/md/docs/intro): Getting started');
+    });
+
+    it('llms-full.txtではfrontMatterを各ページに出力する', async () => {
+      mockSite();
+      const handler = createLlmsTxtHandler({ pages: ['/docs/intro'], frontMatter: true });
+
+      const text = await (await handler(createRequest('/llms-full.txt'))).text();
+
+      expect(text).toContain('---\ntitle: "Intro"\n');
+    });
+
+    it('ライフサイクルフックを呼び出し、Server-Timingを付与する', async () => {
+      mockSite();
+      const onRequest = vi.fn();
+      const onFetched = vi.fn();
+      const onConverted = vi.fn();
+      const onResponse = vi.fn();
+      const handler = createLlmsTxtHandler({
+        pages: ['/', '/docs/intro'],
+        serverTiming: true,
+        onRequest,
+        onFetched,
+        onConverted,
+        onResponse,
+      });
+
+      const response = await handler(createRequest('/llms-full.txt'));
+      const text = await response.text();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'http://localhost:3000/llms-full.txt' })
+      );
+      expect(onFetched.mock.calls.map(([event]) => event.url)).toEqual([
+        'http://localhost:3000/',
+        'http://localhost:3000/docs/intro',
+      ]);
+      expect(onConverted).toHaveBeenCalledTimes(2);
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 200,
+          bytes: new TextEncoder().encode(text).length,
+        })
+      );
+      expect(response.headers.get('Server-Timing')).toMatch(/fetch;dur=.*convert;dur=.*total;dur=/);
+    });
+
+    it('拒否したリクエストはonRejectedに理由を渡す', async () => {
+      mockSite();
+      const onRejected = vi.fn();
+      const handler = createLlmsTxtHandler({
+        pages: ['/'],
+        rateLimit: { capacity: 1 },
+        onRejected,
+      });
+
+      await handler(createRequest('/llms.txt'));
+      await handler(createRequest('/llms.txt'));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(onRejected).toHaveBeenCalledTimes(1);
+      expect(onRejected).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'rate-limited', status: 429 })
+      );
+    });
+  });
+});
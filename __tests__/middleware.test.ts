@@ -4,6 +4,7 @@ import {
   handleMarkdownRequest,
   createMarkdownMiddleware,
 } from '../src/middleware';
+import { createMemoryCacheStore } from '../src/cache';
 
 // fetchをモック
 global.fetch = vi.fn();
@@ -205,6 +206,329 @@ describe('middleware', () => {
     });
   });
 
+  describe('セレクタールール', () => {
+    it('パスにマッチするルールのみを適用する', async () => {
+      const html =
+        '<html><body><nav>Menu</nav><div class="prose"><h1>Prose</h1></div><aside class="ad">Ad</aside></body></html>';
+      (global.fetch as unknown) = vi.fn().mockImplementation(async () => ({
+        ok: true,
+        status: 200,
+        text: async () => html,
+        headers: new Headers({ 'content-type': 'text/html' }),
+      }));
+      const options = {
+        selectors: [
+          { remove: ['.ad'] },
+          { paths: ['/blog/'], include: ['.prose'] },
+        ],
+      };
+
+      const blog = await handleMarkdownRequest(
+        new NextRequest(new URL('http://localhost:3000/blog/post.md'), {
+          headers: { host: 'localhost:3000' },
+        }),
+        options,
+      );
+      const blogText = await blog?.text();
+      expect(blogText).toContain('# Prose');
+      expect(blogText).not.toContain('Menu');
+      expect(blogText).not.toContain('Ad');
+
+      const docs = await handleMarkdownRequest(
+        new NextRequest(new URL('http://localhost:3000/docs/page.md'), {
+          headers: { host: 'localhost:3000' },
+        }),
+        options,
+      );
+      const docsText = await docs?.text();
+      expect(docsText).toContain('Menu');
+      expect(docsText).not.toContain('Ad');
+    });
+  });
+
+  describe('サーバー側キャッシュ', () => {
+    it('storeを指定した場合は変換結果を再利用する', async () => {
+      const html = '<html><body><h1>Cached</h1></body></html>';
+      (global.fetch as unknown) = vi.fn().mockImplementation(async () => ({
+        ok: true,
+        status: 200,
+        text: async () => html,
+        headers: new Headers({ 'content-type': 'text/html' }),
+      }));
+      const options = {
+        cache: {
+          enabled: true,
+          maxAge: 60,
+          staleWhileRevalidate: 30,
+          store: createMemoryCacheStore(),
+        },
+      };
+      const createRequest = () =>
+        new NextRequest(new URL('http://localhost:3000/cached.md'), {
+          headers: { host: 'localhost:3000' },
+        });
+
+      const first = await handleMarkdownRequest(createRequest(), options);
+      const second = await handleMarkdownRequest(createRequest(), options);
+
+      expect(first?.headers.get('X-Markdown-Cache')).toBe('MISS');
+      expect(second?.headers.get('X-Markdown-Cache')).toBe('HIT');
+      expect(second?.headers.get('Cache-Control')).toContain(
+        'stale-while-revalidate=30',
+      );
+      expect(await second?.text()).toContain('# Cached');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('条件付きリクエスト', () => {
+    it('ETagとLast-Modifiedを付与し、一致する場合は304を返す', async () => {
+      const html = '<html><body><h1>Test</h1></body></html>';
+      const lastModified = 'Wed, 01 Jan 2025 00:00:00 GMT';
+      (global.fetch as unknown) = vi.fn().mockImplementation(async () => ({
+        ok: true,
+        status: 200,
+        text: async () => html,
+        headers: new Headers({
+          'content-type': 'text/html',
+          'last-modified': lastModified,
+        }),
+      }));
+
+      const first = await handleMarkdownRequest(
+        new NextRequest(new URL('http://localhost:3000/test.md'), {
+          headers: { host: 'localhost:3000' },
+        }),
+      );
+      const etag = first?.headers.get('ETag');
+      expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+      expect(first?.headers.get('Last-Modified')).toBe(lastModified);
+
+      const byETag = await handleMarkdownRequest(
+        new NextRequest(new URL('http://localhost:3000/test.md'), {
+          headers: { host: 'localhost:3000', 'if-none-match': etag ?? '' },
+        }),
+      );
+      expect(byETag?.status).toBe(304);
+      expect(byETag?.headers.get('ETag')).toBe(etag);
+      expect(await byETag?.text()).toBe('');
+
+      const byDate = await handleMarkdownRequest(
+        new NextRequest(new URL('http://localhost:3000/test.md'), {
+          headers: { host: 'localhost:3000', 'if-modified-since': lastModified },
+        }),
+      );
+      expect(byDate?.status).toBe(304);
+    });
+  });
+
+  describe('コンテンツネゴシエーション', () => {
+    it('Accept: text/markdownの場合に同じURLでMarkdownを返す', async () => {
+      const html = '<html><body><h1>Test</h1></body></html>';
+      (global.fetch as unknown) = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: async () => html,
+        headers: new Headers({ 'content-type': 'text/html' }),
+      });
+
+      const request = new NextRequest(new URL('http://localhost:3000/test'), {
+        headers: { host: 'localhost:3000', accept: 'text/markdown, text/html;q=0.9' },
+      });
+      const result = await handleMarkdownRequest(request, { negotiate: true });
+
+      expect(result?.status).toBe(200);
+      expect(result?.headers.get('Vary')).toBe('Accept');
+      expect(await result?.text()).toContain('# Test');
+
+      // 内部fetchはHTMLを要求し、元のパスをそのまま取得する
+      const [url, init] = (global.fetch as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+      expect(new URL(url as string).pathname).toBe('/test');
+      expect((init as { headers: Headers }).headers.get('accept')).toBe('text/html');
+    });
+
+    it('HTMLを優先するAcceptの場合はnullを返す', async () => {
+      const request = new NextRequest(new URL('http://localhost:3000/test'), {
+        headers: { host: 'localhost:3000', accept: 'text/html, */*;q=0.8' },
+      });
+      const result = await handleMarkdownRequest(request, { negotiate: true });
+      expect(result).toBeNull();
+    });
+
+    it('negotiateが無効な場合はAcceptを無視する', async () => {
+      const request = new NextRequest(new URL('http://localhost:3000/test'), {
+        headers: { host: 'localhost:3000', accept: 'text/markdown' },
+      });
+      const result = await handleMarkdownRequest(request);
+      expect(result).toBeNull();
+    });
+
+    it('createMarkdownMiddlewareはHTML側のレスポンスにもVaryを付与する', async () => {
+      const middleware = createMarkdownMiddleware({ negotiate: true });
+      const request = new NextRequest(new URL('http://localhost:3000/test'), {
+        headers: { host: 'localhost:3000', accept: 'text/html' },
+      });
+      const result = await middleware(request);
+      expect(result.headers.get('Vary')).toBe('Accept');
+    });
+  });
+
+  describe('URLの対応付け', () => {
+    const fetchedPath = () => {
+      const [url] = (global.fetch as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+      return new URL(url as string).pathname;
+    };
+
+    beforeEach(() => {
+      (global.fetch as unknown) = vi.fn().mockImplementation(
+        async () =>
+          new Response('<html><body><h1>Test</h1></body></html>', {
+            headers: { 'content-type': 'text/html' },
+          }),
+      );
+    });
+
+    it('/index.mdはルートパスに対応させる', async () => {
+      const request = new NextRequest(new URL('http://localhost:3000/index.md'), {
+        headers: { host: 'localhost:3000' },
+      });
+      const result = await handleMarkdownRequest(request);
+
+      expect(result?.status).toBe(200);
+      expect(fetchedPath()).toBe('/');
+    });
+
+    it('trailingSlash有効時は末尾にスラッシュを付けたパスを取得する', async () => {
+      const request = new NextRequest(new URL('http://localhost:3000/docs.md'), {
+        headers: { host: 'localhost:3000' },
+      });
+      await handleMarkdownRequest(request, { mapping: { trailingSlash: true } });
+
+      expect(fetchedPath()).toBe('/docs/');
+    });
+
+    it('拡張子・プレフィックス・クエリでMarkdownを要求できる', async () => {
+      const mapping = { suffixes: ['.markdown', '.txt'], prefix: '/md', query: 'format=md' };
+      for (const url of [
+        'http://localhost:3000/about.markdown',
+        'http://localhost:3000/about.txt',
+        'http://localhost:3000/md/about',
+        'http://localhost:3000/about?format=md',
+      ]) {
+        vi.mocked(global.fetch).mockClear();
+        const request = new NextRequest(new URL(url), { headers: { host: 'localhost:3000' } });
+        const result = await handleMarkdownRequest(request, { mapping });
+
+        expect(result?.status, url).toBe(200);
+        expect(fetchedPath()).toBe('/about');
+      }
+    });
+
+    it('suffixesに含まれない拡張子は処理しない', async () => {
+      const request = new NextRequest(new URL('http://localhost:3000/about.md'), {
+        headers: { host: 'localhost:3000' },
+      });
+      const result = await handleMarkdownRequest(request, {
+        mapping: { suffixes: ['.markdown'] },
+      });
+      expect(result).toBeNull();
+    });
+
+    it('basePathを付与したパスを取得する', async () => {
+      const request = new NextRequest(new URL('http://localhost:3000/docs/about.md'), {
+        headers: { host: 'localhost:3000' },
+      });
+      await handleMarkdownRequest(request, { mapping: { basePath: '/docs' } });
+
+      expect(fetchedPath()).toBe('/docs/about');
+    });
+  });
+
+  describe('basePathとi18nロケール', () => {
+    const nextConfig = {
+      basePath: '/site',
+      i18n: { locales: ['en', 'ja'], defaultLocale: 'en' },
+    };
+    const fetchedPath = () => {
+      const [url] = (global.fetch as unknown as ReturnType<typeof vi.fn>).mock.calls[0];
+      return new URL(url as string).pathname;
+    };
+
+    beforeEach(() => {
+      (global.fetch as unknown) = vi.fn().mockImplementation(
+        async () =>
+          new Response(
+            '<html lang="en"><head><title>About</title></head><body><h1>About</h1></body></html>',
+            { headers: { 'content-type': 'text/html' } },
+          ),
+      );
+    });
+
+    it('basePathとURLのロケールを付与したページを取得する', async () => {
+      const request = new NextRequest('http://localhost:3000/site/ja/about.md', {
+        headers: { host: 'localhost:3000' },
+        nextConfig,
+      });
+      const result = await handleMarkdownRequest(request);
+
+      expect(result?.status).toBe(200);
+      expect(result?.headers.get('Content-Language')).toBe('ja');
+      expect(result?.headers.get('Vary')).toBeNull();
+      expect(fetchedPath()).toBe('/site/ja/about');
+    });
+
+    it('URLにロケールがない場合はデフォルトロケールのページを取得する', async () => {
+      const request = new NextRequest('http://localhost:3000/site/index.md', {
+        headers: { host: 'localhost:3000', 'accept-language': 'ja' },
+        nextConfig,
+      });
+      await handleMarkdownRequest(request);
+
+      expect(fetchedPath()).toBe('/site/en');
+    });
+
+    it('detect有効時はAccept-Languageからロケールを選択する', async () => {
+      const request = new NextRequest('http://localhost:3000/site/about.md', {
+        headers: { host: 'localhost:3000', 'accept-language': 'ja-JP,ja;q=0.9,en;q=0.5' },
+        nextConfig,
+      });
+      const result = await handleMarkdownRequest(request, {
+        locale: { locales: ['en', 'ja'], detect: true },
+      });
+
+      expect(fetchedPath()).toBe('/site/ja/about');
+      expect(result?.headers.get('Content-Language')).toBe('ja');
+      expect(result?.headers.get('Vary')).toBe('Accept-Language');
+    });
+
+    it('detect有効時もURLのロケールを優先する', async () => {
+      const request = new NextRequest('http://localhost:3000/site/ja/about.md', {
+        headers: { host: 'localhost:3000', 'accept-language': 'en' },
+        nextConfig,
+      });
+      const result = await handleMarkdownRequest(request, {
+        locale: { locales: ['en', 'ja'], detect: true },
+      });
+
+      expect(fetchedPath()).toBe('/site/ja/about');
+      expect(result?.headers.get('Vary')).toBeNull();
+    });
+
+    it('locale.frontMatter有効時はロケールをフロントマターのlangとして出力する', async () => {
+      const request = new NextRequest('http://localhost:3000/site/ja/about.md', {
+        headers: { host: 'localhost:3000' },
+        nextConfig,
+      });
+      const result = await handleMarkdownRequest(request, {
+        locale: { frontMatter: true },
+      });
+
+      const text = await result?.text();
+      expect(text).toMatch(/^---\n/);
+      expect(text).toContain('lang: "ja"');
+    });
+  });
+
   describe('createMarkdownMiddleware', () => {
     it('Middleware関数を返す', () => {
       const middleware = createMarkdownMiddleware();
@@ -217,6 +541,32 @@ describe('middleware', () => {
       const result = await middleware(request);
       expect(result).toBeInstanceOf(NextResponse);
     });
+
+    it('オプションを省略した場合も同時のリクエストをまとめる', async () => {
+      const fetchMock = vi.fn().mockImplementation(
+        async () =>
+          new Response('<html><body><h1>Test</h1></body></html>', {
+            headers: { 'content-type': 'text/html' },
+          }),
+      );
+      global.fetch = fetchMock;
+      const middleware = createMarkdownMiddleware();
+      const createRequest = () =>
+        new NextRequest(new URL('http://localhost:3000/test.md'), {
+          headers: { host: 'localhost:3000' },
+        });
+
+      const responses = await Promise.all([
+        middleware(createRequest()),
+        middleware(createRequest()),
+        middleware(createRequest()),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      for (const response of responses) {
+        expect(await response.text()).toContain('# Test');
+      }
+    });
   });
 });
 
@@ -0,0 +1,318 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheStore } from '../src/cache';
+import { createTracingHooks, emit, formatServerTiming } from '../src/observability';
+import { runMarkdownPipeline } from '../src/pipeline';
+import type { MarkdownPipelineOptions, TracingSpan, TracingTracer } from '../src/types';
+import { mockFetchHtml } from './helpers/fetch';
+
+function createRequest() {
+  return new NextRequest('http://localhost:3000/about.md', {
+    headers: { host: 'localhost:3000' },
+  });
+}
+
+/**
+ * 記録したスパンを確認できるno-opトレーサーを作成
+ */
+function createRecordingTracer() {
+  const spans: {
+    name: string;
+    attributes: Record<string, unknown>;
+    status?: { code: number; message?: string };
+    ended: boolean;
+  }[] = [];
+  const tracer: TracingTracer = {
+    startSpan(name, options) {
+      const record = {
+        name,
+        attributes: { ...options?.attributes },
+        ended: false,
+      } as (typeof spans)[number];
+      spans.push(record);
+      const span: TracingSpan = {
+        setAttribute(key, value) {
+          record.attributes[key] = value;
+          return span;
+        },
+        setStatus(status) {
+          record.status = status;
+          return span;
+        },
+        end() {
+          record.ended = true;
+        },
+      };
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+describe('observability', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('emit', () => {
+    it('フックがない場合はイベントを作成しない', () => {
+      const createEvent = vi.fn(() => ({}));
+      emit(undefined, createEvent);
+      expect(createEvent).not.toHaveBeenCalled();
+    });
+
+    it('フックのエラーはログに出力してthrowしない', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(() =>
+        emit(
+          () => {
+            throw new Error('sync');
+          },
+          () => ({})
+        )
+      ).not.toThrow();
+      emit(
+        async () => {
+          throw new Error('async');
+        },
+        () => ({})
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('formatServerTiming', () => {
+    it('計測した段階のみ小数点以下1桁で出力する', () => {
+      expect(formatServerTiming({ fetch: 12.34, convert: 4.56, total: 20.1 })).toBe(
+        'fetch;dur=12.3, convert;dur=4.6, total;dur=20.1'
+      );
+      expect(formatServerTiming({ total: 3 })).toBe('total;dur=3');
+    });
+  });
+
+  describe('ライフサイクルフック', () => {
+    it('変換の各段階で所要時間とバイト数を通知する', async () => {
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+      const options: MarkdownPipelineOptions = {
+        onRequest: vi.fn(),
+        onFetched: vi.fn(),
+        onConverted: vi.fn(),
+        onResponse: vi.fn(),
+        onRejected: vi.fn(),
+      };
+      const request = createRequest();
+
+      await runMarkdownPipeline(request, { path: '/about' }, options);
+
+      expect(options.onRequest).toHaveBeenCalledWith({
+        request,
+        url: 'https://localhost:3000/about',
+      });
+      expect(options.onFetched).toHaveBeenCalledWith({
+        request,
+        url: 'https://localhost:3000/about',
+        status: 200,
+        bytes: 40,
+        duration: expect.any(Number),
+      });
+      expect(options.onConverted).toHaveBeenCalledWith(
+        expect.objectContaining({ inputBytes: 40, bytes: 7, duration: expect.any(Number) })
+      );
+      expect(options.onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 200,
+          bytes: 7,
+          cacheStatus: undefined,
+          timings: {
+            fetch: expect.any(Number),
+            convert: expect.any(Number),
+            total: expect.any(Number),
+          },
+        })
+      );
+      expect(options.onRejected).not.toHaveBeenCalled();
+    });
+
+    it('キャッシュから返した場合は参照結果を通知し、取得・変換は通知しない', async () => {
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+      const onFetched = vi.fn();
+      const onResponse = vi.fn();
+      const options: MarkdownPipelineOptions = {
+        cache: { store: createMemoryCacheStore() },
+        onFetched,
+        onResponse,
+      };
+
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, options);
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, options);
+
+      expect(onFetched).toHaveBeenCalledTimes(1);
+      expect(onResponse.mock.calls.map(([event]) => event.cacheStatus)).toEqual(['MISS', 'HIT']);
+      expect(onResponse.mock.calls[1][0].timings).toEqual({ total: expect.any(Number) });
+    });
+
+    it('拒否した場合は理由を通知してからレスポンスを通知する', async () => {
+      mockFetchHtml('{}', { headers: { 'content-type': 'application/json' } });
+      const calls: string[] = [];
+      const options: MarkdownPipelineOptions = {
+        onRejected: vi.fn(() => {
+          calls.push('rejected');
+        }),
+        onResponse: vi.fn(() => {
+          calls.push('response');
+        }),
+      };
+
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, options);
+
+      expect(options.onRejected).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'unsupported-content-type', status: 415 })
+      );
+      expect(options.onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 415, bytes: 0 })
+      );
+      expect(calls).toEqual(['rejected', 'response']);
+    });
+
+    it('拒否の理由を区別する', async () => {
+      const onRejected = vi.fn();
+
+      mockFetchHtml('Not Found', { status: 404 });
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, { onRejected });
+      await runMarkdownPipeline(createRequest(), { path: '//evil.com/page' }, { onRejected });
+      const rateLimited: MarkdownPipelineOptions = { rateLimit: { capacity: 0 }, onRejected };
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, rateLimited);
+      global.fetch = vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, { onRejected });
+
+      expect(onRejected.mock.calls.map(([event]) => event.reason)).toEqual([
+        'upstream-error',
+        'forbidden',
+        'rate-limited',
+        'timeout',
+      ]);
+    });
+
+    it('予期しないエラーはerrorとして通知する', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.fetch = vi.fn().mockRejectedValue(new Error('connection reset'));
+      const onRejected = vi.fn();
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        { onRejected }
+      );
+
+      expect(response.status).toBe(500);
+      expect(onRejected).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'error', status: 500 })
+      );
+    });
+
+    it('フックのエラーはレスポンスに影響しない', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        {
+          onRequest: () => {
+            throw new Error('hook failed');
+          },
+        }
+      );
+
+      expect(response.status).toBe(200);
+      expect(console.error).toHaveBeenCalledWith('Markdown hook error:', expect.any(Error));
+    });
+  });
+
+  describe('Server-Timing', () => {
+    it('serverTiming有効時は取得・変換・全体の所要時間を付与する', async () => {
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        { serverTiming: true }
+      );
+
+      expect(response.headers.get('server-timing')).toMatch(
+        /^fetch;dur=[\d.]+, convert;dur=[\d.]+, total;dur=[\d.]+$/
+      );
+    });
+
+    it('デフォルトでは付与しない', async () => {
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+
+      const response = await runMarkdownPipeline(createRequest(), { path: '/about' });
+
+      expect(response.headers.get('server-timing')).toBeNull();
+    });
+  });
+
+  describe('createTracingHooks', () => {
+    it('リクエストごとにスパンを記録して終了する', async () => {
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+      const { tracer, spans } = createRecordingTracer();
+
+      await runMarkdownPipeline(createRequest(), { path: '/about' }, createTracingHooks(tracer));
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]).toMatchObject({
+        name: 'markdown.convert',
+        ended: true,
+        attributes: {
+          'url.full': 'https://localhost:3000/about',
+          'markdown.upstream.status_code': 200,
+          'markdown.fetch.bytes': 40,
+          'markdown.convert.output_bytes': 7,
+          'http.response.status_code': 200,
+        },
+      });
+      expect(spans[0].status).toBeUndefined();
+    });
+
+    it('拒否した場合はスパンのステータスをエラーにする', async () => {
+      const { tracer, spans } = createRecordingTracer();
+
+      await runMarkdownPipeline(
+        createRequest(),
+        { path: '//evil.com/page' },
+        createTracingHooks(tracer, { spanName: 'md' })
+      );
+
+      expect(spans[0]).toMatchObject({
+        name: 'md',
+        ended: true,
+        status: { code: 2, message: 'forbidden' },
+        attributes: { 'markdown.rejection_reason': 'forbidden', 'http.response.status_code': 403 },
+      });
+    });
+
+    it('no-opトレーサーでも変換できる', async () => {
+      mockFetchHtml('<html><body><h1>About</h1></body></html>');
+      const span: TracingSpan = { setAttribute: () => span, setStatus: () => span, end: () => {} };
+      const tracer: TracingTracer = { startSpan: () => span };
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/about' },
+        createTracingHooks(tracer)
+      );
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
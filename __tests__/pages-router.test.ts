@@ -0,0 +1,193 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMarkdownApiRoute, createMarkdownRewrites } from '../src/pages-router';
+
+/**
+ * テスト用のNextApiRequestを作成
+ */
+function createRequest(overrides: Partial<NextApiRequest> = {}): NextApiRequest {
+  return {
+    method: 'GET',
+    url: '/api/markdown/about',
+    headers: { host: 'localhost:3000' },
+    query: { path: ['about'] },
+    ...overrides,
+  } as NextApiRequest;
+}
+
+/**
+ * 書き込まれた内容を記録するNextApiResponseを作成
+ */
+function createResponse() {
+  const sent = { status: 0, headers: {} as Record<string, string>, body: undefined as unknown };
+  const res = {
+    status: vi.fn((code: number) => {
+      sent.status = code;
+      return res;
+    }),
+    setHeader: vi.fn((name: string, value: string) => {
+      sent.headers[name.toLowerCase()] = value;
+      return res;
+    }),
+    end: vi.fn((body?: unknown) => {
+      sent.body = body;
+      return res;
+    }),
+  };
+  return { res: res as unknown as NextApiResponse, sent };
+}
+
+describe('pages-router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn().mockImplementation(
+      async () =>
+        new Response('<html><body><h1>About</h1><p>Content</p></body></html>', {
+          headers: { 'content-type': 'text/html' },
+        })
+    );
+  });
+
+  describe('createMarkdownApiRoute', () => {
+    it('パスパラメータのページをMarkdownに変換して返す', async () => {
+      const apiRoute = createMarkdownApiRoute();
+      const { res, sent } = createResponse();
+
+      await apiRoute(createRequest(), res);
+
+      expect(sent.status).toBe(200);
+      expect(sent.headers['content-type']).toBe('text/markdown; charset=utf-8');
+      expect(sent.headers['cache-control']).toContain('max-age=3600');
+      expect(sent.body).toContain('# About');
+      expect(global.fetch).toHaveBeenCalledWith('https://localhost:3000/about', expect.anything());
+    });
+
+    it('パスパラメータがない場合はルートパスを変換する', async () => {
+      const apiRoute = createMarkdownApiRoute();
+      const { res, sent } = createResponse();
+
+      await apiRoute(createRequest({ url: '/api/markdown', query: {} }), res);
+
+      expect(sent.status).toBe(200);
+      expect(global.fetch).toHaveBeenCalledWith('https://localhost:3000/', expect.anything());
+    });
+
+    it('外部ホストへのリクエストは403を返す', async () => {
+      const apiRoute = createMarkdownApiRoute();
+      const { res, sent } = createResponse();
+
+      await apiRoute(createRequest({ query: { path: ['', 'evil.com', 'page'] } }), res);
+
+      expect(sent.status).toBe(403);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('GET/HEAD以外のメソッドは405を返す', async () => {
+      const apiRoute = createMarkdownApiRoute();
+      const { res, sent } = createResponse();
+
+      await apiRoute(createRequest({ method: 'POST' }), res);
+
+      expect(sent.status).toBe(405);
+      expect(sent.headers.allow).toBe('GET, HEAD');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('headers.forwardで指定したヘッダーのみ転送する', async () => {
+      const apiRoute = createMarkdownApiRoute({ headers: { forward: ['accept-language'] } });
+      const { res } = createResponse();
+
+      await apiRoute(
+        createRequest({
+          headers: { host: 'localhost:3000', 'accept-language': 'ja', 'user-agent': 'test-agent' },
+        }),
+        res
+      );
+
+      const [, init] = vi.mocked(global.fetch).mock.calls[0];
+      const headers = init?.headers as Headers;
+      expect(headers.get('accept-language')).toBe('ja');
+      expect(headers.get('user-agent')).toBeNull();
+      expect(headers.get('accept')).toBe('text/html');
+    });
+
+    it('If-None-MatchがETagに一致する場合は本文なしの304を返す', async () => {
+      const apiRoute = createMarkdownApiRoute();
+      const first = createResponse();
+      await apiRoute(createRequest(), first.res);
+      const etag = first.sent.headers.etag;
+      expect(etag).toBeTruthy();
+
+      const second = createResponse();
+      await apiRoute(
+        createRequest({ headers: { host: 'localhost:3000', 'if-none-match': etag } }),
+        second.res
+      );
+
+      expect(second.sent.status).toBe(304);
+      expect(second.sent.body).toBeUndefined();
+    });
+
+    it('ネゴシエーションによるリライトの場合はVary: Acceptを付与する', async () => {
+      const apiRoute = createMarkdownApiRoute();
+      const { res, sent } = createResponse();
+
+      await apiRoute(
+        createRequest({ query: { path: ['about'], __markdown_negotiated: '1' } }),
+        res
+      );
+
+      expect(sent.status).toBe(200);
+      expect(sent.headers.vary).toBe('Accept');
+    });
+  });
+
+  describe('createMarkdownRewrites', () => {
+    it('.mdのURLをAPI Routeにリライトするルールを返す', () => {
+      expect(createMarkdownRewrites('/api/md')).toEqual([
+        { source: '/:path*/index.md', destination: '/api/md/:path*' },
+        { source: '/:path*.md', destination: '/api/md/:path*' },
+      ]);
+    });
+
+    it('negotiate有効時はAcceptヘッダーを条件とするルールを追加する', () => {
+      const rules = createMarkdownRewrites('/api/markdown', { negotiate: true });
+      const negotiation = rules[rules.length - 1];
+      expect(negotiation.source).toBe('/:path*');
+
+      const pattern = new RegExp(`^${negotiation.has?.[0].value}$`);
+      expect(negotiation.has?.[0].key).toBe('accept');
+      expect(pattern.test('text/markdown')).toBe(true);
+      expect(pattern.test('text/markdown, text/html;q=0.9')).toBe(true);
+      expect(pattern.test('text/html,application/xhtml+xml,*/*;q=0.8')).toBe(false);
+    });
+
+    it('negotiate有効時もq=0のtext/markdownには一致しない', () => {
+      const rules = createMarkdownRewrites('/api/markdown', { negotiate: true });
+      const pattern = new RegExp(`^${rules[rules.length - 1].has?.[0].value}$`);
+
+      expect(pattern.test('text/markdown;q=0')).toBe(false);
+      expect(pattern.test('text/markdown; q=0.000, text/html')).toBe(false);
+      expect(pattern.test('text/markdown;charset=utf-8;q=0')).toBe(false);
+      expect(pattern.test('text/markdown;q=0.5, text/html')).toBe(true);
+      expect(pattern.test('text/markdown, text/html;q=0')).toBe(true);
+    });
+
+    it('mappingに合わせて拡張子・プレフィックス・クエリのルールを返す', () => {
+      const rules = createMarkdownRewrites('/api/markdown', {
+        mapping: { suffixes: ['.markdown'], prefix: '/md/', query: 'format=md' },
+      });
+
+      expect(rules).toEqual([
+        { source: '/:path*/index.markdown', destination: '/api/markdown/:path*' },
+        { source: '/:path*.markdown', destination: '/api/markdown/:path*' },
+        { source: '/md/:path*', destination: '/api/markdown/:path*' },
+        {
+          source: '/:path*',
+          has: [{ type: 'query', key: 'format', value: 'md' }],
+          destination: '/api/markdown/:path*',
+        },
+      ]);
+    });
+  });
+});
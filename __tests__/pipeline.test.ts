@@ -0,0 +1,627 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMarkdownHandler } from '../src/app-router';
+import { createMemoryCacheStore } from '../src/cache';
+import { handleMarkdownRequest } from '../src/middleware';
+import { runMarkdownPipeline } from '../src/pipeline';
+import { mockFetchHtml } from './helpers/fetch';
+
+describe('pipeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('runMarkdownPipeline', () => {
+    it('ページのURLを基準にフロントマターのurlを設定する', async () => {
+      mockFetchHtml('<html><head><title>Post</title></head><body><p>Body</p></body></html>');
+      const request = new NextRequest('http://localhost:3000/api/markdown/blog/post', {
+        headers: { host: 'localhost:3000', 'x-forwarded-proto': 'http' },
+      });
+
+      const response = await runMarkdownPipeline(
+        request,
+        { path: '/blog/post' },
+        { frontMatter: true }
+      );
+
+      expect(await response.text()).toContain('url: "http://localhost:3000/blog/post"');
+    });
+
+    it('不正なx-forwarded-protoはhttpsにフォールバックする', async () => {
+      const fetchMock = mockFetchHtml('<html><body><p>Body</p></body></html>');
+      const request = new NextRequest('http://localhost:3000/test.md', {
+        headers: { host: 'localhost:3000', 'x-forwarded-proto': 'javascript' },
+      });
+
+      await runMarkdownPipeline(request, { path: '/test' });
+
+      expect(new URL(fetchMock.mock.calls[0][0]).protocol).toBe('https:');
+    });
+
+    it('内部fetchでは常にtext/htmlを要求する', async () => {
+      const fetchMock = mockFetchHtml('<html><body><p>Body</p></body></html>');
+      const request = new NextRequest('http://localhost:3000/test.md', {
+        headers: { host: 'localhost:3000', accept: 'text/markdown' },
+      });
+
+      await runMarkdownPipeline(request, { path: '/test' });
+
+      expect((fetchMock.mock.calls[0][1].headers as Headers).get('accept')).toBe('text/html');
+    });
+
+    it('originを指定した場合は接続先を置き換え、フロントマターには公開URLを使用する', async () => {
+      const fetchMock = mockFetchHtml(
+        '<html><head><title>About</title></head><body><p>Body</p></body></html>'
+      );
+      const request = new NextRequest('https://example.com/about.md', {
+        headers: { host: 'example.com', 'x-forwarded-proto': 'https' },
+      });
+
+      const response = await runMarkdownPipeline(
+        request,
+        { path: '/about' },
+        { origin: 'http://127.0.0.1:3000', frontMatter: true }
+      );
+      const markdown = await response.text();
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:3000/about');
+      expect(markdown).toContain('url: "https://example.com/about"');
+    });
+
+    it('originを関数で指定した場合はリクエストごとに接続先を求める', async () => {
+      const fetchMock = mockFetchHtml('<html><body><p>Body</p></body></html>');
+      const request = new NextRequest('https://example.com/about.md', {
+        headers: { host: 'example.com', 'x-internal-port': '4000' },
+      });
+
+      await runMarkdownPipeline(
+        request,
+        { path: '/about' },
+        { origin: (req) => `http://127.0.0.1:${req.headers.get('x-internal-port')}` }
+      );
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:4000/about');
+    });
+
+    it('originを指定しても外部ホストへのパスは403を返す', async () => {
+      const fetchMock = mockFetchHtml('<html><body><p>Body</p></body></html>');
+      const request = new NextRequest('https://example.com/api/markdown', {
+        headers: { host: 'example.com' },
+      });
+
+      const response = await runMarkdownPipeline(
+        request,
+        { path: '//evil.com/page' },
+        { origin: 'http://127.0.0.1:3000' }
+      );
+
+      expect(response.status).toBe(403);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('MiddlewareとRoute Handlerの共通化', () => {
+    const createHandlerRequest = () =>
+      new NextRequest('http://localhost:3000/api/markdown/test', {
+        headers: { host: 'localhost:3000' },
+      });
+    const createMiddlewareRequest = () =>
+      new NextRequest('http://localhost:3000/test.md', {
+        headers: { host: 'localhost:3000' },
+      });
+    const context = { params: { path: ['test'] } };
+
+    it('Route HandlerでもmaxRequestSizeを適用する', async () => {
+      mockFetchHtml(`<html><body><p>${'a'.repeat(200)}</p></body></html>`);
+
+      const response = await createMarkdownHandler({ maxRequestSize: 100 })(
+        createHandlerRequest(),
+        context
+      );
+
+      expect(response.status).toBe(413);
+    });
+
+    it('エラーレスポンスの本文が同じになる', async () => {
+      mockFetchHtml('{}', { headers: { 'content-type': 'application/json' } });
+
+      const fromHandler = await createMarkdownHandler()(createHandlerRequest(), context);
+      const fromMiddleware = await handleMarkdownRequest(createMiddlewareRequest());
+
+      expect(fromHandler.status).toBe(415);
+      expect(fromMiddleware?.status).toBe(415);
+      // instanceはそれぞれのリクエストのパスとなる
+      const { instance: handlerInstance, ...handlerProblem } = await fromHandler.json();
+      const { instance: middlewareInstance, ...middlewareProblem } = await (
+        fromMiddleware as Response
+      ).json();
+      expect(handlerProblem).toEqual(middlewareProblem);
+      expect(handlerInstance).toBe('/api/markdown/test');
+      expect(middlewareInstance).toBe('/test.md');
+    });
+
+    it('Route HandlerはデフォルトでCache-Controlを付与する', async () => {
+      mockFetchHtml('<html><body><p>Body</p></body></html>');
+
+      const response = await createMarkdownHandler({ cache: { maxAge: 60, sMaxAge: 600 } })(
+        createHandlerRequest(),
+        context
+      );
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=60, s-maxage=600');
+    });
+  });
+
+  describe('サイズ制限', () => {
+    const createRequest = () =>
+      new NextRequest('http://localhost:3000/test.md', {
+        headers: { host: 'localhost:3000' },
+      });
+
+    it('Content-Lengthがないストリームも上限を超えた時点で読み込みを中止する', async () => {
+      const encoder = new TextEncoder();
+      let pulls = 0;
+      let cancelled = false;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls++;
+          controller.enqueue(encoder.encode(`<p>${'a'.repeat(1000)}</p>`));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(new Response(body, { headers: { 'content-type': 'text/html' } }));
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/test' },
+        { maxRequestSize: 5000 }
+      );
+
+      expect(response.status).toBe(413);
+      expect(cancelled).toBe(true);
+      expect(pulls).toBeLessThan(10);
+    });
+
+    it('文字数ではなくバイト数で上限を判定する', async () => {
+      // 'あ'はUTF-8で3バイト（40文字 = 120バイト）
+      mockFetchHtml(`<p>${'あ'.repeat(40)}</p>`);
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/test' },
+        { maxRequestSize: 100 }
+      );
+
+      expect(response.status).toBe(413);
+    });
+
+    it('上限以内のマルチバイト文字を正しくデコードする', async () => {
+      mockFetchHtml(`<p>${'日本語'.repeat(100)}</p>`);
+
+      const response = await runMarkdownPipeline(createRequest(), { path: '/test' });
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain('日本語'.repeat(100));
+    });
+  });
+
+  describe('タイムアウト', () => {
+    it('ヘッダーの受信後に本文の送信が止まった場合も504を返し、接続を切断する', async () => {
+      let cancelled = false;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('<html>'));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+      global.fetch = vi
+        .fn()
+        .mockResolvedValue(new Response(body, { headers: { 'content-type': 'text/html' } }));
+
+      const response = await runMarkdownPipeline(
+        new NextRequest('http://localhost:3000/test.md', { headers: { host: 'localhost:3000' } }),
+        { path: '/test' },
+        { fetchTimeout: 100 }
+      );
+
+      expect(response.status).toBe(504);
+      expect(await response.json()).toMatchObject({ type: expect.stringContaining('#timeout') });
+      expect(cancelled).toBe(true);
+    });
+  });
+
+  describe('リダイレクト', () => {
+    const createRequest = () =>
+      new NextRequest('https://example.com/old.md', {
+        headers: { host: 'example.com', 'x-forwarded-proto': 'https' },
+      });
+
+    /**
+     * パスごとにリダイレクトまたはHTMLを返すfetchのモック
+     */
+    function mockRedirects(redirects: Record<string, [number, string]>) {
+      const fetchMock = vi.fn().mockImplementation(async (input: string) => {
+        const redirect = redirects[new URL(input).pathname];
+        if (redirect) {
+          return new Response(null, { status: redirect[0], headers: { location: redirect[1] } });
+        }
+        return new Response('<html><body><a href="page">Page</a></body></html>', {
+          headers: { 'content-type': 'text/html' },
+        });
+      });
+      global.fetch = fetchMock;
+      return fetchMock;
+    }
+
+    it('内部のリダイレクトを追跡し、最終的なページのURLをフロントマターに使用する', async () => {
+      const fetchMock = mockRedirects({ '/old': [301, '/docs/new/'] });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/old' },
+        { frontMatter: true }
+      );
+
+      expect(response.status).toBe(200);
+      expect(fetchMock.mock.calls.map(([input]) => input)).toEqual([
+        'https://example.com/old',
+        'https://example.com/docs/new/',
+      ]);
+      expect(fetchMock.mock.calls[0][1].redirect).toBe('manual');
+      expect(await response.text()).toContain('url: "https://example.com/docs/new/"');
+    });
+
+    it('外部ホストやプライベートアドレスへのリダイレクトは403を返す', async () => {
+      for (const location of ['https://evil.com/', 'http://169.254.169.254/latest/meta-data']) {
+        const fetchMock = mockRedirects({ '/old': [302, location] });
+
+        const response = await runMarkdownPipeline(createRequest(), { path: '/old' });
+
+        expect(response.status).toBe(403);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    it('最大リダイレクト回数を超えた場合は502を返す', async () => {
+      const fetchMock = mockRedirects({ '/old': [302, '/loop'], '/loop': [302, '/old'] });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/old' },
+        { redirects: { maxRedirects: 2 } }
+      );
+
+      expect(response.status).toBe(502);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("mode: 'redirect'の場合は対応するMarkdownのURLへリダイレクトする", async () => {
+      mockRedirects({ '/old': [301, '/docs/new/'], '/temp': [302, '/'] });
+
+      const permanent = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/old' },
+        { redirects: { mode: 'redirect' } }
+      );
+      expect(permanent.status).toBe(308);
+      expect(permanent.headers.get('location')).toBe('https://example.com/docs/new.md');
+
+      const temporary = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/temp' },
+        { redirects: { mode: 'redirect', permanentStatus: 301 } }
+      );
+      expect(temporary.status).toBe(307);
+      expect(temporary.headers.get('location')).toBe('https://example.com/index.md');
+    });
+
+    it.each([
+      [{ suffixes: ['.markdown', '.md'] }, '/docs/new.markdown', '/index.markdown'],
+      [{ prefix: '/md/' }, '/md/docs/new', '/md'],
+      [{ query: 'format=md' }, '/docs/new/?format=md', '/?format=md'],
+      [{ suffixes: ['.md'], basePath: '/blog' }, '/blog/docs/new.md', '/blog/index.md'],
+      [{ prefix: '/md', basePath: '/blog' }, '/blog/md/docs/new', '/blog/md'],
+    ])(
+      "mode: 'redirect'のリダイレクト先はmapping（%o）の形式とする",
+      async (mapping, page, index) => {
+        const { basePath = '' } = mapping as { basePath?: string };
+        mockRedirects({
+          [`${basePath}/old`]: [301, `${basePath}/docs/new/`],
+          [`${basePath}/temp`]: [302, `${basePath}/`],
+        });
+        const options = { mapping, redirects: { mode: 'redirect' as const } };
+
+        const permanent = await runMarkdownPipeline(
+          createRequest(),
+          { path: '/old', basePath },
+          options
+        );
+        const temporary = await runMarkdownPipeline(
+          createRequest(),
+          { path: '/temp', basePath },
+          options
+        );
+
+        expect(permanent.headers.get('location')).toBe(`https://example.com${page}`);
+        expect(temporary.headers.get('location')).toBe(`https://example.com${index}`);
+      }
+    );
+
+    it('ネゴシエーションによるリクエストの場合はページのURLへリダイレクトする', async () => {
+      mockRedirects({ '/old': [308, '/new'] });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/old', negotiated: true },
+        { redirects: { mode: 'redirect', permanentStatus: 301 } }
+      );
+
+      expect(response.status).toBe(301);
+      expect(response.headers.get('location')).toBe('https://example.com/new');
+      expect(response.headers.get('vary')).toBe('Accept');
+    });
+
+    it('接続先オリジンへのリダイレクトは公開URLとして扱う', async () => {
+      const fetchMock = mockRedirects({ '/old': [301, 'http://127.0.0.1:3000/new'] });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/old' },
+        { origin: 'http://127.0.0.1:3000', redirects: { mode: 'redirect' } }
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith('http://127.0.0.1:3000/old', expect.anything());
+      expect(response.headers.get('location')).toBe('https://example.com/new.md');
+    });
+  });
+
+  describe('同時リクエストの集約', () => {
+    const createRequest = (headers: Record<string, string> = {}) =>
+      new NextRequest('http://localhost:3000/docs/x.md', {
+        headers: { host: 'localhost:3000', ...headers },
+      });
+
+    it('同じページへの同時のリクエストは1回の取得・変換を共有する', async () => {
+      const fetchMock = mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      const options = {};
+
+      const responses = await Promise.all([
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      for (const response of responses) {
+        expect(response.status).toBe(200);
+        expect(await response.text()).toContain('Docs');
+      }
+    });
+
+    it('cache.varyHeadersのヘッダーが異なる場合はまとめない', async () => {
+      const fetchMock = mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      const options = { headers: { forward: ['accept-language'] } };
+
+      await Promise.all([
+        runMarkdownPipeline(
+          createRequest({ 'accept-language': 'ja' }),
+          { path: '/docs/x' },
+          options
+        ),
+        runMarkdownPipeline(
+          createRequest({ 'accept-language': 'en' }),
+          { path: '/docs/x' },
+          options
+        ),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('cache.varyHeaders以外の転送するヘッダーが異なる場合もまとめる', async () => {
+      const fetchMock = mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      const options = { headers: { forward: ['user-agent', 'referer'] } };
+
+      await Promise.all(
+        ['GPTBot/1.0', 'ClaudeBot/1.0', 'Googlebot/2.1'].map((agent) =>
+          runMarkdownPipeline(createRequest({ 'user-agent': agent }), { path: '/docs/x' }, options)
+        )
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('認証情報を転送する場合は認証情報が異なるリクエストをまとめない', async () => {
+      const fetchMock = mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      const options = { auth: { cookies: ['session'] } };
+
+      await Promise.all([
+        runMarkdownPipeline(
+          createRequest({ cookie: 'session=alice' }),
+          { path: '/docs/x' },
+          options
+        ),
+        runMarkdownPipeline(createRequest({ cookie: 'session=bob' }), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest({ cookie: 'session=bob' }), { path: '/docs/x' }, options),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('frontMatter.transformを指定した場合はまとめず、リクエストごとの結果を返す', async () => {
+      const fetchMock = mockFetchHtml(
+        '<html><head><title>Docs</title></head><body><h1>Docs</h1></body></html>'
+      );
+      const options = {
+        frontMatter: {
+          transform: (fields: Record<string, unknown>, request?: NextRequest) => ({
+            ...fields,
+            user: request?.headers.get('x-user'),
+          }),
+        },
+      };
+
+      const [alice, bob] = await Promise.all([
+        runMarkdownPipeline(createRequest({ 'x-user': 'alice' }), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest({ 'x-user': 'bob' }), { path: '/docs/x' }, options),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await alice.text()).toContain('user: "alice"');
+      const body = await bob.text();
+      expect(body).toContain('user: "bob"');
+      expect(body).not.toContain('alice');
+    });
+
+    it('frontMatter.transformを指定した場合はサーバー側キャッシュを使用しない', async () => {
+      const fetchMock = mockFetchHtml(
+        '<html><head><title>Docs</title></head><body><h1>Docs</h1></body></html>'
+      );
+      const options = {
+        cache: { store: createMemoryCacheStore() },
+        frontMatter: {
+          transform: (fields: Record<string, unknown>, request?: NextRequest) => ({
+            ...fields,
+            user: request?.headers.get('x-user'),
+          }),
+        },
+      };
+
+      const alice = await runMarkdownPipeline(
+        createRequest({ 'x-user': 'alice' }),
+        { path: '/docs/x' },
+        options
+      );
+      const bob = await runMarkdownPipeline(
+        createRequest({ 'x-user': 'bob' }),
+        { path: '/docs/x' },
+        options
+      );
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await alice.text()).toContain('user: "alice"');
+      expect(await bob.text()).toContain('user: "bob"');
+      expect(bob.headers.get('X-Markdown-Cache')).toBeNull();
+    });
+
+    it('タイムアウトを待機中のすべてのリクエストに返す', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => {
+        throw Object.assign(new Error('aborted'), { name: 'AbortError' });
+      });
+      global.fetch = fetchMock;
+      const options = {};
+
+      const responses = await Promise.all([
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      for (const response of responses) {
+        expect(response.status).toBe(504);
+        expect(await response.json()).toMatchObject({ title: 'Gateway Timeout', status: 504 });
+      }
+    });
+
+    it('予期しないエラーは待機中のすべてのリクエストで500になる', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      global.fetch = vi.fn().mockRejectedValue(new Error('connection reset'));
+      const options = {};
+
+      const responses = await Promise.all([
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+      ]);
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(responses.map((response) => response.status)).toEqual([500, 500]);
+      consoleSpy.mockRestore();
+    });
+
+    it('coalesce: falseの場合はリクエストごとに取得する', async () => {
+      const fetchMock = mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      const options = { coalesce: false };
+
+      await Promise.all([
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+        runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('レスポンスの書き換え', () => {
+    const createRequest = (headers: Record<string, string> = {}) =>
+      new NextRequest('http://localhost:3000/docs/x.md', {
+        headers: { host: 'localhost:3000', ...headers },
+      });
+
+    it('transformResponseで本文とヘッダーを書き換える', async () => {
+      mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      const transformResponse = vi.fn(async (markdown: string, { url, headers }) => {
+        headers.set('Link', `<${url}>; rel="canonical"`);
+        return `${markdown}\n\n---\nCC BY 4.0`;
+      });
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/docs/x' },
+        { transformResponse }
+      );
+
+      expect(await response.text()).toBe('# Docs\n\n---\nCC BY 4.0');
+      expect(response.headers.get('link')).toBe('<https://localhost:3000/docs/x>; rel="canonical"');
+      expect(transformResponse).toHaveBeenCalledWith(
+        '# Docs',
+        expect.objectContaining({ url: 'https://localhost:3000/docs/x', cacheStatus: undefined })
+      );
+    });
+
+    it('キャッシュには書き換える前のMarkdownを保存し、ETagは書き換えた本文から計算する', async () => {
+      mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+      let footer = 'v1';
+      const options = {
+        cache: { store: createMemoryCacheStore() },
+        transformResponse: (markdown: string) => `${markdown}\n\n${footer}`,
+      };
+
+      const first = await runMarkdownPipeline(createRequest(), { path: '/docs/x' }, options);
+      footer = 'v2';
+      const second = await runMarkdownPipeline(
+        createRequest({ 'if-none-match': first.headers.get('etag') ?? '' }),
+        { path: '/docs/x' },
+        options
+      );
+
+      expect(second.status).toBe(200);
+      expect(second.headers.get('x-markdown-cache')).toBe('HIT');
+      expect(await second.text()).toBe('# Docs\n\nv2');
+      expect(second.headers.get('etag')).not.toBe(first.headers.get('etag'));
+    });
+
+    it('transformResponseのエラーは500として返す', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockFetchHtml('<html><body><h1>Docs</h1></body></html>');
+
+      const response = await runMarkdownPipeline(
+        createRequest(),
+        { path: '/docs/x' },
+        {
+          transformResponse: () => {
+            throw new Error('transform failed');
+          },
+        }
+      );
+
+      expect(response.status).toBe(500);
+      vi.mocked(console.error).mockRestore();
+    });
+  });
+});
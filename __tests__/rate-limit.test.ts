@@ -0,0 +1,292 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runMarkdownPipeline } from '../src/pipeline';
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  withConcurrencyLimit,
+} from '../src/rate-limit';
+import type { ConcurrencyOptions, MarkdownPipelineOptions } from '../src/types';
+
+function createRequest(headers: Record<string, string> = {}, ip?: string) {
+  return new NextRequest('http://localhost:3000/test.md', {
+    headers: { host: 'localhost:3000', ...headers },
+    ip,
+  });
+}
+
+describe('rate-limit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('createMemoryRateLimitStore', () => {
+    it('容量を使い切るとRetry-Afterの秒数とともに拒否する', () => {
+      const store = createMemoryRateLimitStore();
+      const bucket = { capacity: 2, refillRate: 0.5 };
+
+      expect(store.consume('a', bucket)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+      expect(store.consume('a', bucket)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+      expect(store.consume('a', bucket)).toEqual({ allowed: false, remaining: 0, retryAfter: 2 });
+    });
+
+    it('経過時間に応じてトークンを補充する', () => {
+      const store = createMemoryRateLimitStore();
+      const bucket = { capacity: 1, refillRate: 1 };
+
+      store.consume('a', bucket);
+      expect(store.consume('a', bucket)).toMatchObject({ allowed: false });
+
+      vi.advanceTimersByTime(1000);
+      expect(store.consume('a', bucket)).toMatchObject({ allowed: true });
+    });
+
+    it('キーごとに独立したバケットを持つ', () => {
+      const store = createMemoryRateLimitStore();
+      const bucket = { capacity: 1, refillRate: 1 };
+
+      expect(store.consume('a', bucket)).toMatchObject({ allowed: true });
+      expect(store.consume('b', bucket)).toMatchObject({ allowed: true });
+      expect(store.consume('a', bucket)).toMatchObject({ allowed: false });
+    });
+
+    it('maxKeysを超えた場合は最も古く参照されたキーを破棄する', () => {
+      const store = createMemoryRateLimitStore({ maxKeys: 1 });
+      const bucket = { capacity: 1, refillRate: 1 };
+
+      store.consume('a', bucket);
+      store.consume('b', bucket);
+
+      // 破棄されたため満タンのバケットから再開する
+      expect(store.consume('a', bucket)).toMatchObject({ allowed: true });
+    });
+  });
+
+  describe('consumeRateLimit', () => {
+    it('rateLimitが未指定の場合はnullを返す', async () => {
+      expect(await consumeRateLimit(createRequest(), {})).toBeNull();
+    });
+
+    it('デフォルトではクライアントのIPアドレスごとに制限する', async () => {
+      const options: MarkdownPipelineOptions = { rateLimit: { capacity: 1 } };
+
+      expect(await consumeRateLimit(createRequest({}, '203.0.113.1'), options)).toMatchObject({
+        allowed: true,
+      });
+      expect(await consumeRateLimit(createRequest({}, '203.0.113.2'), options)).toMatchObject({
+        allowed: true,
+      });
+      expect(await consumeRateLimit(createRequest({}, '203.0.113.1'), options)).toMatchObject({
+        allowed: false,
+      });
+    });
+
+    it('信頼しないプロキシのx-forwarded-forではキーを変えられない', async () => {
+      const options: MarkdownPipelineOptions = { rateLimit: { capacity: 1 } };
+
+      await consumeRateLimit(
+        createRequest({ 'x-forwarded-for': '198.51.100.1' }, '203.0.113.1'),
+        options
+      );
+      const result = await consumeRateLimit(
+        createRequest({ 'x-forwarded-for': '198.51.100.2' }, '203.0.113.1'),
+        options
+      );
+
+      expect(result).toMatchObject({ allowed: false });
+    });
+
+    it('trustedProxiesが未指定の場合はrequest.ipがなくてもx-forwarded-forを使用しない', async () => {
+      const options: MarkdownPipelineOptions = { rateLimit: { capacity: 1 } };
+
+      const results = [];
+      for (const forwarded of ['198.51.100.1', '198.51.100.2', '198.51.100.3']) {
+        results.push(
+          await consumeRateLimit(createRequest({ 'x-forwarded-for': forwarded }), options)
+        );
+      }
+
+      expect(results.map((result) => result?.allowed)).toEqual([true, false, false]);
+    });
+
+    it('信頼するプロキシ経由の場合はx-forwarded-forの右端から信頼しない最初のアドレスを使用する', async () => {
+      const consume = vi.fn(async (_key: string) => ({
+        allowed: true,
+        remaining: 0,
+        retryAfter: 0,
+      }));
+      const options: MarkdownPipelineOptions = {
+        rateLimit: { store: { consume } },
+        trustedProxies: ['10.0.0.0/8'],
+      };
+
+      await consumeRateLimit(
+        createRequest({ 'x-forwarded-for': 'spoofed, 203.0.113.1, 10.0.0.2' }, '10.0.0.1'),
+        options
+      );
+      await consumeRateLimit(
+        createRequest({ 'x-forwarded-for': '203.0.113.1' }, '198.51.100.1'),
+        options
+      );
+      await consumeRateLimit(createRequest({ 'x-forwarded-for': 'spoofed, 203.0.113.2' }), {
+        ...options,
+        trustedProxies: true,
+      });
+
+      expect(consume.mock.calls.map(([key]) => key)).toEqual([
+        'rl:203.0.113.1',
+        'rl:198.51.100.1',
+        'rl:203.0.113.2',
+      ]);
+    });
+
+    it('keyにuser-agentや関数を指定できる', async () => {
+      const byAgent: MarkdownPipelineOptions = { rateLimit: { capacity: 1, key: 'user-agent' } };
+      await consumeRateLimit(createRequest({ 'user-agent': 'bot-a' }), byAgent);
+      expect(
+        await consumeRateLimit(createRequest({ 'user-agent': 'bot-b' }), byAgent)
+      ).toMatchObject({ allowed: true });
+      expect(
+        await consumeRateLimit(createRequest({ 'user-agent': 'bot-a' }), byAgent)
+      ).toMatchObject({ allowed: false });
+
+      const key = vi.fn(() => 'tenant');
+      const byFunction: MarkdownPipelineOptions = { rateLimit: { capacity: 1, key } };
+      await consumeRateLimit(createRequest(), byFunction);
+      expect(await consumeRateLimit(createRequest(), byFunction)).toMatchObject({ allowed: false });
+      expect(key).toHaveBeenCalledTimes(2);
+    });
+
+    it('カスタムストアにキーとバケットの設定を渡す', async () => {
+      const consume = vi.fn(async () => ({ allowed: true, remaining: 9, retryAfter: 0 }));
+      await consumeRateLimit(createRequest({}, '203.0.113.1'), {
+        rateLimit: { capacity: 10, refillRate: 2, store: { consume } },
+      });
+
+      expect(consume).toHaveBeenCalledWith('rl:203.0.113.1', { capacity: 10, refillRate: 2 });
+    });
+
+    it('ストアのエラー時はリクエストを許可する', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const consume = vi.fn(async () => {
+        throw new Error('connection refused');
+      });
+
+      expect(
+        await consumeRateLimit(createRequest(), { rateLimit: { store: { consume } } })
+      ).toBeNull();
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('withConcurrencyLimit', () => {
+    it('上限を超えた処理は待機列に加え、完了後に順に実行する', async () => {
+      const options: ConcurrencyOptions = { maxInFlight: 1, maxQueue: 1 };
+      const order: string[] = [];
+      let finishFirst = () => {};
+
+      const first = withConcurrencyLimit(options, async () => {
+        order.push('first:start');
+        await new Promise<void>((resolve) => {
+          finishFirst = resolve;
+        });
+        order.push('first:end');
+        return 'first';
+      });
+      const second = withConcurrencyLimit(options, async () => {
+        order.push('second');
+        return 'second';
+      });
+      await Promise.resolve();
+      expect(order).toEqual(['first:start']);
+
+      finishFirst();
+      expect(await Promise.all([first, second])).toEqual(['first', 'second']);
+      expect(order).toEqual(['first:start', 'first:end', 'second']);
+    });
+
+    it('待機列が上限に達した場合はnullを返す', async () => {
+      const options: ConcurrencyOptions = { maxInFlight: 1 };
+      let finish = () => {};
+      const running = withConcurrencyLimit(
+        options,
+        () =>
+          new Promise<void>((resolve) => {
+            finish = resolve;
+          })
+      );
+
+      expect(await withConcurrencyLimit(options, async () => 'rejected')).toBeNull();
+
+      finish();
+      await running;
+      expect(await withConcurrencyLimit(options, async () => 'accepted')).toBe('accepted');
+    });
+
+    it('処理が失敗しても実行枠を解放する', async () => {
+      const options: ConcurrencyOptions = { maxInFlight: 1 };
+
+      await expect(
+        withConcurrencyLimit(options, async () => {
+          throw new Error('failed');
+        })
+      ).rejects.toThrow('failed');
+      expect(await withConcurrencyLimit(options, async () => 'ok')).toBe('ok');
+    });
+  });
+
+  describe('runMarkdownPipeline', () => {
+    beforeEach(() => {
+      global.fetch = vi.fn().mockImplementation(
+        async () =>
+          new Response('<html><body><p>Body</p></body></html>', {
+            headers: { 'content-type': 'text/html' },
+          })
+      );
+    });
+
+    it('レート制限を超えた場合はRetry-After付きの429を返し、ページを取得しない', async () => {
+      const options: MarkdownPipelineOptions = { rateLimit: { capacity: 1, refillRate: 0.2 } };
+
+      const allowed = await runMarkdownPipeline(createRequest(), { path: '/test' }, options);
+      const limited = await runMarkdownPipeline(createRequest(), { path: '/test' }, options);
+
+      expect(allowed.status).toBe(200);
+      expect(limited.status).toBe(429);
+      expect(limited.headers.get('retry-after')).toBe('5');
+      expect(await limited.json()).toMatchObject({ title: 'Too Many Requests', status: 429 });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('同時実行数と待機列の上限を超えた変換は429を返す', async () => {
+      let finish = () => {};
+      vi.mocked(global.fetch).mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finish = () =>
+              resolve(
+                new Response('<html><body><p>Slow</p></body></html>', {
+                  headers: { 'content-type': 'text/html' },
+                })
+              );
+          })
+      );
+      const options: MarkdownPipelineOptions = { concurrency: { maxInFlight: 1 } };
+
+      const slow = runMarkdownPipeline(createRequest(), { path: '/slow' }, options);
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+      const rejected = await runMarkdownPipeline(createRequest(), { path: '/test' }, options);
+
+      expect(rejected.status).toBe(429);
+      expect(rejected.headers.get('retry-after')).toBe('1');
+
+      finish();
+      expect((await slow).status).toBe(200);
+    });
+  });
+});
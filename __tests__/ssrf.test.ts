@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isLoopbackHost,
+  isPrivateAddress,
+  matchesAllowedHost,
+  matchesHostPattern,
+  normalizeHostname,
+  parseIp,
+} from '../src/ssrf';
+
+describe('ssrf', () => {
+  describe('parseIp', () => {
+    it('IPv4・IPv6アドレスをバイト列に変換する', () => {
+      expect(parseIp('192.168.0.1')).toEqual([192, 168, 0, 1]);
+      expect(parseIp('[::1]')).toEqual([...new Array(15).fill(0), 1]);
+      expect(parseIp('fe80::1:2')).toHaveLength(16);
+    });
+
+    it('IPv4射影アドレスはIPv4アドレスとして扱う', () => {
+      expect(parseIp('::ffff:127.0.0.1')).toEqual([127, 0, 0, 1]);
+      expect(parseIp('::ffff:a9fe:a9fe')).toEqual([169, 254, 169, 254]);
+    });
+
+    it('IPアドレスでない場合はnullを返す', () => {
+      expect(parseIp('example.com')).toBeNull();
+      expect(parseIp('256.0.0.1')).toBeNull();
+      expect(parseIp('1::2::3')).toBeNull();
+      expect(parseIp('1:2:3:4:5:6:7:8:9')).toBeNull();
+    });
+  });
+
+  describe('normalizeHostname', () => {
+    it('ポート番号・末尾のドットを除去して小文字にする', () => {
+      expect(normalizeHostname('Example.COM.:3000')).toBe('example.com');
+      expect(normalizeHostname('[::1]:3000')).toBe('::1');
+      expect(normalizeHostname('::1')).toBe('::1');
+    });
+
+    it('10進数・16進数・8進数表記のIPv4アドレスを正規化する', () => {
+      expect(normalizeHostname('2130706433')).toBe('127.0.0.1');
+      expect(normalizeHostname('0x7f.1')).toBe('127.0.0.1');
+      expect(normalizeHostname('0177.0.0.1')).toBe('127.0.0.1');
+      expect(normalizeHostname('[::ffff:169.254.169.254]:80')).toBe('169.254.169.254');
+    });
+  });
+
+  describe('matchesHostPattern', () => {
+    it('完全一致・ワイルドカード・CIDRで判定する', () => {
+      expect(matchesHostPattern('example.com', 'Example.com')).toBe(true);
+      expect(matchesHostPattern('docs.example.com', '*.example.com')).toBe(true);
+      expect(matchesHostPattern('example.com', '*.example.com')).toBe(false);
+      expect(matchesHostPattern('evilexample.com', '*.example.com')).toBe(false);
+      expect(matchesHostPattern('10.1.2.3', '10.0.0.0/8')).toBe(true);
+      expect(matchesHostPattern('11.1.2.3', '10.0.0.0/8')).toBe(false);
+      expect(matchesHostPattern('fd12::1', 'fd00::/8')).toBe(true);
+      expect(matchesHostPattern('example.com', '10.0.0.0/8')).toBe(false);
+    });
+  });
+
+  describe('matchesAllowedHost', () => {
+    it('ポートを指定しないパターンはデフォルトのポートのみ許可する', () => {
+      expect(matchesAllowedHost(new URL('https://example.com/'), 'example.com')).toBe(true);
+      expect(matchesAllowedHost(new URL('http://example.com:80/'), 'example.com')).toBe(true);
+      expect(matchesAllowedHost(new URL('http://example.com:6379/'), 'example.com')).toBe(false);
+      expect(matchesAllowedHost(new URL('http://10.0.3.7:3000/'), '10.0.0.0/8')).toBe(false);
+    });
+
+    it('host:port形式のパターンは指定したポートのみ許可する', () => {
+      expect(matchesAllowedHost(new URL('http://localhost:3000/'), 'localhost:3000')).toBe(true);
+      expect(matchesAllowedHost(new URL('http://localhost:3001/'), 'localhost:3000')).toBe(false);
+      expect(matchesAllowedHost(new URL('http://localhost/'), 'localhost:3000')).toBe(false);
+      expect(
+        matchesAllowedHost(new URL('http://docs.example.com:8443/'), '*.example.com:8443')
+      ).toBe(true);
+      expect(matchesAllowedHost(new URL('http://[::1]:8080/'), '[::1]:8080')).toBe(true);
+      expect(matchesAllowedHost(new URL('http://10.0.3.7:3000/'), '10.0.0.0/8:3000')).toBe(true);
+      expect(matchesAllowedHost(new URL('http://[fd00::1]/'), 'fd00::1')).toBe(true);
+    });
+  });
+
+  describe('isPrivateAddress', () => {
+    it('プライベート・リンクローカル・予約済みのアドレスを判定する', () => {
+      for (const hostname of [
+        '10.0.0.1',
+        '172.31.255.255',
+        '192.168.1.1',
+        '169.254.169.254',
+        '0.0.0.0',
+        'fd00::1',
+        'fe80::1',
+      ]) {
+        expect(isPrivateAddress(hostname)).toBe(true);
+      }
+      for (const hostname of [
+        '8.8.8.8',
+        '172.32.0.1',
+        '2001:4860::8888',
+        '127.0.0.1',
+        'example.com',
+      ]) {
+        expect(isPrivateAddress(hostname)).toBe(false);
+      }
+    });
+  });
+
+  describe('isLoopbackHost', () => {
+    it('localhostとループバックアドレスを判定する', () => {
+      expect(isLoopbackHost('localhost')).toBe(true);
+      expect(isLoopbackHost('app.localhost')).toBe(true);
+      expect(isLoopbackHost('127.0.0.2')).toBe(true);
+      expect(isLoopbackHost('::1')).toBe(true);
+      expect(isLoopbackHost('10.0.0.1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runCli } from '../src/cli';
+import { exportStaticMarkdown, toPagePath } from '../src/static-export';
+
+/**
+ * テスト用のビルド済みHTMLを書き込む
+ */
+async function writeHtml(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [name, html] of Object.entries(files)) {
+    await mkdir(dirname(join(dir, name)), { recursive: true });
+    await writeFile(join(dir, name), html);
+  }
+}
+
+describe('static-export', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'next-markdown-'));
+    await writeHtml(dir, {
+      'index.html':
+        '<html><head><title>Home</title><meta name="description" content="Welcome"></head><body><h1>Home</h1></body></html>',
+      'about.html': '<html><head><title>About</title></head><body><h1>About</h1></body></html>',
+      'docs/guide/index.html':
+        '<html><head><title>Guide</title></head><body><h1>Guide</h1></body></html>',
+      '404.html': '<html><body><h1>Not Found</h1></body></html>',
+      '_next/static/page.html': '<html><body><h1>Asset</h1></body></html>',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('toPagePath', () => {
+    it('HTMLファイルのパスをページのパス名に変換する', () => {
+      expect(toPagePath('/out', '/out/index.html')).toBe('/');
+      expect(toPagePath('/out', '/out/about.html')).toBe('/about');
+      expect(toPagePath('/out', '/out/docs/guide/index.html')).toBe('/docs/guide/');
+    });
+  });
+
+  describe('exportStaticMarkdown', () => {
+    it('HTMLファイルと同じ階層に.mdファイルを書き出す', async () => {
+      const result = await exportStaticMarkdown({
+        dir,
+        turndown: { headingStyle: 'atx' },
+      });
+
+      expect(result.pages).toEqual(['/about', '/docs/guide/', '/']);
+      expect(await readFile(join(dir, 'about.md'), 'utf-8')).toContain('# About');
+      expect(await readFile(join(dir, 'docs/guide.md'), 'utf-8')).toContain('# Guide');
+      expect(await readFile(join(dir, 'index.md'), 'utf-8')).toContain('# Home');
+    });
+
+    it('エラーページ・_nextディレクトリ・除外パスは変換しない', async () => {
+      const result = await exportStaticMarkdown({
+        dir,
+        exclude: { paths: [/^\/docs/] },
+      });
+
+      expect(result.pages).toEqual(['/about', '/']);
+      await expect(readFile(join(dir, '404.md'), 'utf-8')).rejects.toThrow();
+      await expect(readFile(join(dir, '_next/static/page.md'), 'utf-8')).rejects.toThrow();
+    });
+
+    it('outDirを指定した場合はそのディレクトリに書き出す', async () => {
+      const outDir = join(dir, 'markdown');
+      const result = await exportStaticMarkdown({ dir, outDir });
+
+      expect(result.files).toContain(join(outDir, 'about.md'));
+      expect(await readFile(join(outDir, 'about.md'), 'utf-8')).toContain('About');
+    });
+
+    it('フロントマター設定をMiddlewareと同じように適用する', async () => {
+      await exportStaticMarkdown({
+        dir,
+        baseUrl: 'https://example.com',
+        frontMatter: true,
+      });
+
+      const markdown = await readFile(join(dir, 'index.md'), 'utf-8');
+      expect(markdown).toMatch(/^---\n/);
+      expect(markdown).toContain('title: "Home"');
+      expect(markdown).toContain('url: "https://example.com/"');
+    });
+
+    it('llmsを指定した場合はllms.txtとllms-full.txtも書き出す', async () => {
+      await exportStaticMarkdown({
+        dir,
+        baseUrl: 'https://example.com',
+        llms: { title: 'Example Docs' },
+      });
+
+      const index = await readFile(join(dir, 'llms.txt'), 'utf-8');
+      expect(index).toContain('# Example Docs');
+      expect(index).toContain('- [About](https://example.com/about.md)');
+      expect(index).toContain('- [Home](https://example.com/index.md): Welcome');
+
+      const full = await readFile(join(dir, 'llms-full.txt'), 'utf-8');
+      expect(full).toContain('Source: https://example.com/docs/guide/');
+      expect(full).toContain('# Guide');
+    });
+  });
+
+  describe('runCli', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('exportコマンドで.mdファイルを書き出す', async () => {
+      const code = await runCli(['export', '--dir', dir, '--base-url', 'https://example.com']);
+
+      expect(code).toBe(0);
+      expect(await readFile(join(dir, 'about.md'), 'utf-8')).toContain('About');
+      expect(console.log).toHaveBeenCalledWith(`Exported 3 pages to ${dir}`);
+    });
+
+    it('設定ファイルのオプションを使用する', async () => {
+      const config = join(dir, 'markdown.config.cjs');
+      await writeFile(config, "module.exports = { turndown: { headingStyle: 'setext' } };");
+
+      const code = await runCli(['export', '--dir', dir, '--config', config]);
+
+      expect(code).toBe(0);
+      expect(await readFile(join(dir, 'about.md'), 'utf-8')).toContain('About\n=====');
+    });
+
+    it('--llmsに--base-urlがない場合はエラーを返す', async () => {
+      const code = await runCli(['export', '--dir', dir, '--llms']);
+
+      expect(code).toBe(1);
+      expect(console.error).toHaveBeenCalledWith('--base-url is required with --llms');
+    });
+
+    it('不明なコマンドの場合は使い方を表示してエラーを返す', async () => {
+      expect(await runCli(['build'])).toBe(1);
+      expect(await runCli(['export', '--unknown'])).toBe(1);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Usage:'));
+    });
+  });
+});
@@ -7,6 +7,12 @@ import {
   getOriginalPath,
   buildAbsoluteUrl,
   addBaseTag,
+  prefersMarkdown,
+  resolveSelectorRules,
+  resolveMarkdownPath,
+  detectLocale,
+  resolveOrigin,
+  toUpstreamUrl,
 } from '../src/utils';
 
 describe('utils', () => {
@@ -46,6 +52,26 @@ describe('utils', () => {
       expect(result.isValid).toBe(false);
       expect(result.error).toContain('Missing Host header');
     });
+
+    it('信頼するオリジンと完全に一致するURLのみ許可する', () => {
+      const request = new NextRequest(new URL('https://example.com/test'), {
+        headers: { host: 'example.com' },
+      });
+      const policy = { trustedOrigin: 'http://10.0.0.5:3000' };
+
+      expect(
+        validateInternalRequest(new URL('http://10.0.0.5:3000/test'), request, policy).isValid
+      ).toBe(true);
+      expect(
+        validateInternalRequest(new URL('http://10.0.0.5:4000/test'), request, policy).isValid
+      ).toBe(false);
+      expect(
+        validateInternalRequest(new URL('https://10.0.0.5:3000/test'), request, policy).isValid
+      ).toBe(false);
+      expect(
+        validateInternalRequest(new URL('http://evil.com/test'), request, policy).isValid
+      ).toBe(false);
+    });
   });
 
   describe('extractSafeHeaders', () => {
@@ -109,6 +135,32 @@ describe('utils', () => {
     });
   });
 
+  describe('resolveSelectorRules', () => {
+    const rules = [
+      { remove: ['script', 'style'] },
+      { paths: ['/blog/'], include: ['article .prose'], remove: ['.ad'] },
+      { paths: [/^\/docs\//], include: ['main'] },
+    ];
+
+    it('パスにマッチするルールを結合する', () => {
+      expect(resolveSelectorRules('/blog/hello', rules)).toEqual({
+        include: ['article .prose'],
+        remove: ['script', 'style', '.ad'],
+      });
+      expect(resolveSelectorRules('/docs/intro', rules)).toEqual({
+        include: ['main'],
+        remove: ['script', 'style'],
+      });
+    });
+
+    it('マッチするルールがない場合はundefinedを返す', () => {
+      expect(resolveSelectorRules('/about', [{ paths: ['/blog/'], include: ['main'] }])).toBe(
+        undefined
+      );
+      expect(resolveSelectorRules('/about')).toBeUndefined();
+    });
+  });
+
   describe('getOriginalPath', () => {
     it('.md拡張子を除去する', () => {
       expect(getOriginalPath('/test.md')).toBe('/test');
@@ -119,6 +171,65 @@ describe('utils', () => {
     });
   });
 
+  describe('resolveMarkdownPath', () => {
+    const resolve = (url: string, mapping?: Parameters<typeof resolveMarkdownPath>[1]) =>
+      resolveMarkdownPath(new URL(url, 'http://localhost'), mapping);
+
+    it('.md拡張子を除去した元のパスを返す', () => {
+      expect(resolve('/about.md')).toBe('/about');
+      expect(resolve('/blog/post.md')).toBe('/blog/post');
+      expect(resolve('/about')).toBeNull();
+    });
+
+    it('インデックスページを対応するディレクトリのパスにする', () => {
+      expect(resolve('/index.md')).toBe('/');
+      expect(resolve('/docs/index.md')).toBe('/docs');
+      expect(resolve('/docs.md')).toBe('/docs');
+      expect(resolve('/docs/index.md', { trailingSlash: true })).toBe('/docs/');
+      expect(resolve('/docs.md', { trailingSlash: true })).toBe('/docs/');
+      expect(resolve('/index.md', { trailingSlash: true })).toBe('/');
+    });
+
+    it('拡張子・プレフィックス・クエリを設定できる', () => {
+      const mapping = { suffixes: ['.markdown', '.txt'], prefix: '/md/', query: 'format=md' };
+      expect(resolve('/about.markdown', mapping)).toBe('/about');
+      expect(resolve('/about.txt', mapping)).toBe('/about');
+      expect(resolve('/about.md', mapping)).toBeNull();
+      expect(resolve('/md/about', mapping)).toBe('/about');
+      expect(resolve('/md', mapping)).toBe('/');
+      expect(resolve('/mdx/about', mapping)).toBeNull();
+      expect(resolve('/about?format=md', mapping)).toBe('/about');
+      expect(resolve('/about?format=html', mapping)).toBeNull();
+      expect(resolve('/about?md', { query: 'md' })).toBe('/about');
+    });
+
+    it('basePathを除去してから対応付ける', () => {
+      expect(resolve('/docs/about.md', { basePath: '/docs' })).toBe('/about');
+      expect(resolve('/docs/index.md', { basePath: '/docs' })).toBe('/');
+      expect(resolve('/docs.md', { basePath: '/docs' })).toBe('/docs');
+      expect(resolve('/md/about', { basePath: '/docs', prefix: '/md' })).toBe('/about');
+    });
+  });
+
+  describe('detectLocale', () => {
+    it('品質値の高い順に対応するロケールを選択する', () => {
+      expect(detectLocale('ja-JP,ja;q=0.9,en;q=0.8', ['en', 'ja'])).toBe('ja');
+      expect(detectLocale('fr;q=0.9,en;q=0.5', ['en', 'ja'])).toBe('en');
+      expect(detectLocale('en;q=0.5,ja', ['en', 'ja'])).toBe('ja');
+    });
+
+    it('言語部分のみの一致も対象とする', () => {
+      expect(detectLocale('en', ['en-US', 'ja-JP'])).toBe('en-US');
+      expect(detectLocale('JA-jp', ['en-US', 'ja-JP'])).toBe('ja-JP');
+    });
+
+    it('一致しない場合やq=0の場合はundefinedを返す', () => {
+      expect(detectLocale('fr', ['en', 'ja'])).toBeUndefined();
+      expect(detectLocale('ja;q=0, *', ['en', 'ja'])).toBeUndefined();
+      expect(detectLocale(null, ['en', 'ja'])).toBeUndefined();
+    });
+  });
+
   describe('buildAbsoluteUrl', () => {
     it('絶対URLを構築する', () => {
       const request = new NextRequest(new URL('http://localhost:3000/test'), {
@@ -130,6 +241,34 @@ describe('utils', () => {
     });
   });
 
+  describe('resolveOrigin', () => {
+    const request = new NextRequest(new URL('https://example.com/test'), {
+      headers: { host: 'example.com' },
+    });
+
+    it('文字列または関数で指定したオリジンを返す', () => {
+      expect(resolveOrigin(request)).toBeUndefined();
+      expect(resolveOrigin(request, 'http://127.0.0.1:3000/')).toBe('http://127.0.0.1:3000');
+      expect(resolveOrigin(request, () => new URL('http://app.internal:8080'))).toBe(
+        'http://app.internal:8080'
+      );
+    });
+
+    it('http/https以外のオリジンはエラーとする', () => {
+      expect(() => resolveOrigin(request, 'file:///etc/passwd')).toThrow('Invalid origin protocol');
+    });
+  });
+
+  describe('toUpstreamUrl', () => {
+    it('公開URLのパスとクエリを接続先オリジンに付け替える', () => {
+      const url = new URL('https://example.com/docs/page?lang=ja');
+      expect(toUpstreamUrl(url, 'http://127.0.0.1:3000').href).toBe(
+        'http://127.0.0.1:3000/docs/page?lang=ja'
+      );
+      expect(toUpstreamUrl(url)).toBe(url);
+    });
+  });
+
   describe('addBaseTag', () => {
     it('<base>タグを追加する', () => {
       const html = '<html><head></head><body>Test</body></html>';
@@ -150,5 +289,31 @@ describe('utils', () => {
       expect(result).toContain('<base href="http://example.com">');
     });
   });
-});
 
+  describe('prefersMarkdown', () => {
+    it('text/markdownの品質値が高い場合はtrueを返す', () => {
+      expect(prefersMarkdown('text/markdown, text/html;q=0.9')).toBe(true);
+    });
+
+    it('text/htmlの品質値が高い場合はfalseを返す', () => {
+      expect(prefersMarkdown('text/html, text/markdown;q=0.5')).toBe(false);
+    });
+
+    it('ワイルドカードのみの場合はfalseを返す', () => {
+      expect(prefersMarkdown('*/*')).toBe(false);
+      expect(prefersMarkdown('text/*')).toBe(false);
+    });
+
+    it('同じ品質値の場合は具体的に指定された方を優先する', () => {
+      expect(prefersMarkdown('text/markdown, */*')).toBe(true);
+    });
+
+    it('q=0のMarkdownは受け付けない', () => {
+      expect(prefersMarkdown('text/markdown;q=0, */*;q=0.1')).toBe(false);
+    });
+
+    it('Acceptヘッダーがない場合はfalseを返す', () => {
+      expect(prefersMarkdown(null)).toBe(false);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { createMarkdownHandler } from 'next-markdown-middleware';
 
-// Node.js runtime required for DOM parsing
-export const runtime = 'nodejs';
+// Edge RuntimeでもNode.js Runtimeでも動作する
+export const runtime = 'edge';
 
 // ライブラリのcreateMarkdownHandlerを使用
 export const GET = createMarkdownHandler({
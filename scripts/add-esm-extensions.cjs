@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+/**
+ * ESM用のファイルのimportに拡張子を付与するスクリプト
+ * TypeScriptコンパイラ（moduleResolution: bundler）は拡張子のないimportを出力するため、
+ * Node.jsから直接読み込めるよう相対パスと`next/server`のimportに.js拡張子を付与
+ *
+ * 使い方: node scripts/add-esm-extensions.cjs [出力ディレクトリ（デフォルト: dist）]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const distDir = path.resolve(process.argv[2] ?? path.join(__dirname, '..', 'dist'));
+
+if (!fs.existsSync(distDir)) {
+  console.error('dist directory does not exist');
+  process.exit(1);
+}
+
+// exportsを持たないため、Node.jsのESMでは拡張子が必要なパッケージのサブパス
+const BARE_SUBPATHS = ['next/server'];
+
+/**
+ * importの指定子に.js拡張子を付与
+ */
+function addExtension(specifier) {
+  if (/^\.{1,2}\//.test(specifier) || BARE_SUBPATHS.includes(specifier)) {
+    return specifier.endsWith('.js') ? specifier : `${specifier}.js`;
+  }
+  return specifier;
+}
+
+const files = fs.readdirSync(distDir);
+
+for (const file of files) {
+  // .jsファイルのみ対象（CJS用の.cjsは除外）
+  if (file.endsWith('.js')) {
+    const filePath = path.join(distDir, file);
+
+    try {
+      const source = fs.readFileSync(filePath, 'utf8');
+      fs.writeFileSync(
+        filePath,
+        source.replace(
+          /(\bfrom\s*|\bimport\s*\(?\s*)(['"])([^'"]+)\2/g,
+          (_, prefix, quote, specifier) => `${prefix}${quote}${addExtension(specifier)}${quote}`
+        )
+      );
+    } catch (error) {
+      console.error(`Error updating ${file}:`, error);
+      process.exit(1);
+    }
+  }
+}
+
+console.log('ESM import extensions added successfully');
@@ -2,7 +2,8 @@
 
 /**
  * CJS用のファイルをリネームするスクリプト
- * TypeScriptコンパイラが生成した.jsファイルを.cjsにリネーム
+ * TypeScriptコンパイラが生成した.jsファイルを.cjsにリネームし、
+ * Node.jsから直接読み込めるよう相対パスのrequireにも.cjs拡張子を付与
  */
 
 const fs = require('fs');
@@ -24,6 +25,11 @@ for (const file of files) {
     const newPath = path.join(distDir, file.replace(/\.js$/, '.cjs'));
 
     try {
+      const source = fs.readFileSync(oldPath, 'utf8');
+      fs.writeFileSync(
+        oldPath,
+        source.replace(/require\("(\.{1,2}\/[^"]+?)(?:\.js)?"\)/g, 'require("$1.cjs")')
+      );
       fs.renameSync(oldPath, newPath);
       console.log(`Renamed: ${file} -> ${path.basename(newPath)}`);
     } catch (error) {
@@ -6,33 +6,46 @@
 
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
-import { convertHtmlToMarkdown } from './converter';
-import type { TurndownOptions } from './types';
-import { extractSafeHeaders, validateInternalRequest } from './utils';
+import { runMarkdownPipeline } from './pipeline';
+import type { LocaleOptions, MarkdownPipelineOptions, MarkdownUrlMapping } from './types';
+import {
+  addLocale,
+  prefersMarkdown,
+  resolveMarkdownPath,
+  resolveRequestLocale,
+  splitLocale,
+} from './utils';
 
 /**
  * App Router Route Handler用のオプション
+ * Middlewareと同じパイプラインオプションを使用する（`cache.enabled`のデフォルトのみtrue）
  */
-export interface MarkdownRouteHandlerOptions {
-  /** キャッシュ設定 */
-  cache?: {
-    /** Cache-Control max-age（秒単位、デフォルト: 3600） */
-    maxAge?: number;
-    /** Cache-Control s-maxage（秒単位） */
-    sMaxAge?: number;
-  };
-  /** Turndownオプション */
-  turndown?: TurndownOptions;
-  /** 転送するヘッダー */
+export interface MarkdownRouteHandlerOptions extends MarkdownPipelineOptions {
+  /**
+   * 転送するヘッダー
+   * @deprecated `headers.forward`を使用してください
+   */
   forwardHeaders?: string[];
-  /** フェッチタイムアウト（ミリ秒、デフォルト: 30000） */
-  fetchTimeout?: number;
-  /** エラーハンドラー */
-  onError?: (error: Error, request: NextRequest) => Response | null;
 }
 
-const DEFAULT_FETCH_TIMEOUT = 30000;
-const DEFAULT_CACHE_MAX_AGE = 3600;
+/**
+ * リライト関数のオプション
+ * App Router Middleware用の`createMarkdownRewrite`と`next.config.js`用の`createMarkdownRewrites`で共通
+ */
+export interface MarkdownRewriteOptions {
+  /**
+   * Acceptヘッダーによるコンテンツネゴシエーションを有効にするか（デフォルト: false）
+   * 有効な場合、`Accept: text/markdown`を優先するリクエストも同じURLのままリライトする
+   */
+  negotiate?: boolean;
+  /** MarkdownのURLの対応付け（デフォルト: `.md`拡張子のみ） */
+  mapping?: MarkdownUrlMapping;
+  /**
+   * i18nロケール設定
+   * ロケールはAPIパスの先頭（`/api/markdown/ja/about`）に含めてRoute Handlerに渡す
+   */
+  locale?: LocaleOptions;
+}
 
 /**
  * App Router用のMarkdown変換Route Handlerを作成
@@ -42,7 +55,7 @@ const DEFAULT_CACHE_MAX_AGE = 3600;
  * // app/api/markdown/[...path]/route.ts
  * import { createMarkdownHandler } from 'next-markdown-middleware';
  *
- * export const runtime = 'nodejs';
+ * export const runtime = 'edge';
  *
  * const handler = createMarkdownHandler({
  *   cache: { maxAge: 3600 },
@@ -56,104 +69,30 @@ const DEFAULT_CACHE_MAX_AGE = 3600;
  * @returns Route Handler関数
  */
 export function createMarkdownHandler(options: MarkdownRouteHandlerOptions = {}) {
-  const {
-    cache = {},
-    turndown,
-    forwardHeaders = ['user-agent', 'accept-language'],
-    fetchTimeout = DEFAULT_FETCH_TIMEOUT,
-    onError,
-  } = options;
+  const { forwardHeaders, ...rest } = options;
+  const pipelineOptions: MarkdownPipelineOptions = {
+    ...rest,
+    // Route Handlerはキャッシュヘッダーをデフォルトで付与する
+    cache: { enabled: true, ...options.cache },
+    headers: {
+      ...options.headers,
+      forward: options.headers?.forward ?? forwardHeaders,
+    },
+  };
 
   return async function handler(
     request: NextRequest,
-    { params }: { params: { path: string[] } | Promise<{ path: string[] }> },
+    { params }: { params: { path?: string[] } | Promise<{ path?: string[] }> },
   ): Promise<Response> {
     // Next.js 15+ ではparamsがPromiseになる可能性がある
     const resolvedParams = params instanceof Promise ? await params : params;
-    const path = '/' + resolvedParams.path.join('/');
-    const host = request.headers.get('host') ?? 'localhost:3000';
-    const protocol = request.headers.get('x-forwarded-proto') ?? 'https';
-    const baseUrl = `${protocol}://${host}`;
-    const targetUrl = `${baseUrl}${path}`;
-
-    // SSRF対策: 内部リクエストのみ許可
-    const validation = validateInternalRequest(new URL(targetUrl), request);
-    if (!validation.isValid) {
-      return new NextResponse(JSON.stringify({ error: validation.error }), {
-        status: 403,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
-
-    try {
-      // タイムアウト付きでフェッチ
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), fetchTimeout);
-
-      const safeHeaders = extractSafeHeaders(request, forwardHeaders);
-      // Headersオブジェクトにacceptヘッダーを追加
-      safeHeaders.set('accept', 'text/html');
-
-      const response = await fetch(targetUrl, {
-        headers: safeHeaders,
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        return new NextResponse(JSON.stringify({ error: 'Page not found' }), {
-          status: response.status,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-
-      // Content-Type検証
-      const contentType = response.headers.get('content-type') || '';
-      if (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml')) {
-        return new NextResponse(JSON.stringify({ error: 'Invalid content type' }), {
-          status: 415,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-
-      const html = await response.text();
-      const markdown = convertHtmlToMarkdown(html, baseUrl, turndown);
-
-      // キャッシュヘッダーの構築
-      const maxAge = cache.maxAge ?? DEFAULT_CACHE_MAX_AGE;
-      const cacheControl = cache.sMaxAge
-        ? `public, max-age=${maxAge}, s-maxage=${cache.sMaxAge}`
-        : `public, max-age=${maxAge}`;
-
-      return new NextResponse(markdown, {
-        status: 200,
-        headers: {
-          'Content-Type': 'text/markdown; charset=utf-8',
-          'Cache-Control': cacheControl,
-        },
-      });
-    } catch (error) {
-      // タイムアウトエラー
-      if (error instanceof Error && error.name === 'AbortError') {
-        return new NextResponse(JSON.stringify({ error: 'Request timeout' }), {
-          status: 504,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-
-      // カスタムエラーハンドラー
-      if (onError && error instanceof Error) {
-        const customResponse = onError(error, request);
-        if (customResponse) return customResponse;
-      }
-
-      console.error('Markdown conversion error:', error);
-      return new NextResponse(JSON.stringify({ error: 'Conversion failed' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      });
-    }
+    // オプショナルキャッチオール（[[...path]]）でルートパスの場合はpathがない
+    // リライト時に付与されたロケールはパスから分離してパイプラインに渡す
+    const { locale, path } = splitLocale(
+      '/' + (resolvedParams.path ?? []).join('/'),
+      options.locale?.locales,
+    );
+    return runMarkdownPipeline(request, { path, locale }, pipelineOptions);
   };
 }
 
@@ -165,7 +104,7 @@ export function createMarkdownHandler(options: MarkdownRouteHandlerOptions = {})
  * // middleware.ts
  * import { createMarkdownRewrite } from 'next-markdown-middleware';
  *
- * const rewrite = createMarkdownRewrite('/api/markdown');
+ * const rewrite = createMarkdownRewrite('/api/markdown', { negotiate: true });
  *
  * export function middleware(request: NextRequest) {
  *   return rewrite(request);
@@ -173,17 +112,45 @@ export function createMarkdownHandler(options: MarkdownRouteHandlerOptions = {})
  * ```
  *
  * @param apiPath - Route HandlerのAPIパス（デフォルト: '/api/markdown'）
+ * @param options - リライトオプション
  * @returns Middleware関数
  */
-export function createMarkdownRewrite(apiPath = '/api/markdown') {
+export function createMarkdownRewrite(
+  apiPath = '/api/markdown',
+  options: MarkdownRewriteOptions = {},
+) {
   return function rewrite(request: NextRequest): NextResponse | null {
     const { pathname } = request.nextUrl;
 
-    if (pathname.endsWith('.md')) {
-      const originalPath = pathname.slice(0, -3);
+    // APIパスはbasePathを除いた形で指定し、ロケールはパスの先頭に含める
+    // （Next.jsはAPIルートのURLにbasePathを付与するが、ロケールは付与しない）
+    const rewriteTo = (path: string) => {
+      const { locale, detected } = resolveRequestLocale(request, options.locale);
+      const localized = addLocale(splitLocale(path, options.locale?.locales).path, locale);
       const url = request.nextUrl.clone();
-      url.pathname = `${apiPath}${originalPath}`;
-      return NextResponse.rewrite(url);
+      url.pathname = localized === '/' ? apiPath : `${apiPath}${localized}`;
+      const response = NextResponse.rewrite(url);
+      if (detected) {
+        response.headers.append('Vary', 'Accept-Language');
+      }
+      return response;
+    };
+
+    const originalPath = resolveMarkdownPath(request.nextUrl, options.mapping);
+    if (originalPath !== null) {
+      return rewriteTo(originalPath);
+    }
+
+    // ネゴシエーション: Route Handlerは内部fetchでtext/htmlを要求するためループしない
+    if (
+      options.negotiate &&
+      !pathname.startsWith(`${apiPath}/`) &&
+      (request.method === 'GET' || request.method === 'HEAD') &&
+      prefersMarkdown(request.headers.get('accept'))
+    ) {
+      const response = rewriteTo(pathname);
+      response.headers.append('Vary', 'Accept');
+      return response;
     }
 
     return null;
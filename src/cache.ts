@@ -0,0 +1,309 @@
+/**
+ * 変換済みMarkdownのサーバー側キャッシュ
+ *
+ * @packageDocumentation
+ */
+
+import { MarkdownError } from './errors';
+import type { CacheEntry, CacheStore } from './types';
+
+/** インメモリキャッシュのデフォルト最大エントリ数 */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * キャッシュの参照結果
+ * - HIT: 有効期限内のエントリを返した
+ * - STALE: 期限切れのエントリを返し、バックグラウンドで再検証した
+ * - MISS: エントリがなく、新たに変換した
+ */
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+/**
+ * インメモリLRUキャッシュストアのオプション
+ */
+export interface MemoryCacheStoreOptions {
+  /** 最大エントリ数（デフォルト: 500） */
+  maxEntries?: number;
+}
+
+/**
+ * インメモリLRUキャッシュストアを作成
+ * Mapの挿入順を利用し、最大エントリ数を超えた場合は最も古く参照されたエントリを破棄する
+ * プロセス内でのみ共有されるため、複数インスタンス構成ではRedis/KV等のストアを使用すること
+ *
+ * @param options - ストアのオプション
+ * @returns キャッシュストア
+ * @example
+ * ```typescript
+ * const store = createMemoryCacheStore({ maxEntries: 1000 });
+ * createMarkdownMiddleware({ cache: { enabled: true, store } });
+ * ```
+ */
+export function createMemoryCacheStore(options: MemoryCacheStoreOptions = {}): CacheStore {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const item = entries.get(key);
+      if (!item) {
+        return undefined;
+      }
+      if (item.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      // 参照されたエントリを末尾に移動（LRU）
+      entries.delete(key);
+      entries.set(key, item);
+      return item.entry;
+    },
+    set(key, entry, ttl) {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + ttl * 1000 });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * 文字列のFNV-1aハッシュを計算
+ *
+ * @internal
+ */
+function fnv1a(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index++) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * 関数や正規表現を含むオプションを安定した文字列に変換
+ *
+ * @internal
+ */
+function stableStringify(value: unknown): string {
+  if (typeof value === 'function' || value instanceof RegExp) {
+    return JSON.stringify(value.toString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/** オプションオブジェクトごとのハッシュのキャッシュ */
+const optionsHashes = new WeakMap<object, string>();
+
+/**
+ * 変換結果に影響するオプションのハッシュを取得
+ * 同じオプションオブジェクトに対しては計算結果を再利用する
+ *
+ * @param options - Middleware/Route Handlerのオプション
+ * @returns オプションのハッシュ
+ * @internal
+ */
+function hashOptions(options: {
+  parser?: unknown;
+  turndown?: unknown;
+  content?: unknown;
+  selectors?: unknown;
+  frontMatter?: unknown;
+  locale?: { frontMatter?: unknown };
+}): string {
+  let hash = optionsHashes.get(options);
+  if (!hash) {
+    const { parser, turndown, content, selectors, frontMatter, locale } = options;
+    hash = fnv1a(
+      stableStringify({
+        parser,
+        turndown,
+        content,
+        selectors,
+        frontMatter,
+        localeFrontMatter: locale?.frontMatter,
+      })
+    );
+    optionsHashes.set(options, hash);
+  }
+  return hash;
+}
+
+/**
+ * キャッシュキーを作成
+ * 対象URL、キャッシュを分けるヘッダーの値、変換オプションのハッシュから構成される
+ *
+ * @param url - 変換対象のURL
+ * @param headers - 内部fetchに転送するヘッダー
+ * @param varyHeaders - キャッシュを分けるヘッダー名のリスト
+ * @param options - Middleware/Route Handlerのオプション
+ * @returns キャッシュキー
+ * @example
+ * ```typescript
+ * createCacheKey('https://example.com/about', headers, ['accept-language'], options);
+ * // 'md:https://example.com/about:1a2b3c4d:5e6f7a8b'
+ * ```
+ */
+export function createCacheKey(
+  url: string,
+  headers: Headers,
+  varyHeaders: string[],
+  options: object
+): string {
+  const variant = varyHeaders
+    .map((name) => `${name.toLowerCase()}=${headers.get(name) ?? ''}`)
+    .sort()
+    .join('&');
+  return `md:${url}:${fnv1a(variant)}:${hashOptions(options)}`;
+}
+
+/** 実行中の読み込み（オプションオブジェクトごと） */
+const inFlight = new WeakMap<object, Map<string, Promise<CacheEntry | Response>>>();
+
+/**
+ * 同じキーの読み込みが実行中であれば、その結果を共有する（single-flight）
+ * 読み込み関数がthrowした場合は待機中のすべての呼び出しにエラーを返す
+ * Responseの本文は一度しか読めないため、呼び出しごとに複製して返す
+ *
+ * @param scope - 読み込みを共有する範囲（オプションオブジェクト）
+ * @param key - 読み込みを識別するキー
+ * @param load - Markdownを取得する関数（リダイレクト時はResponseを返し、エラー時はthrowする）
+ * @returns 読み込み結果
+ * @internal
+ */
+export async function loadOnce(
+  scope: object,
+  key: string,
+  load: () => Promise<CacheEntry | Response>
+): Promise<CacheEntry | Response> {
+  let flights = inFlight.get(scope);
+  if (!flights) {
+    flights = new Map();
+    inFlight.set(scope, flights);
+  }
+
+  let pending = flights.get(key);
+  if (!pending) {
+    const current = flights;
+    pending = load().finally(() => current.delete(key));
+    current.set(key, pending);
+  }
+
+  const result = await pending;
+  return result instanceof Response ? result.clone() : result;
+}
+
+/** バックグラウンドで再検証中のキー（ストアごと） */
+const revalidating = new WeakMap<CacheStore, Set<string>>();
+
+/**
+ * ストアからエントリを取得（ストアのエラーはキャッシュミスとして扱う）
+ *
+ * @internal
+ */
+async function readEntry(store: CacheStore, key: string): Promise<CacheEntry | undefined> {
+  try {
+    return await store.get(key);
+  } catch (error) {
+    console.error('Markdown cache read error:', error);
+    return undefined;
+  }
+}
+
+/**
+ * ストアにエントリを保存（ストアのエラーはレスポンスに影響させない）
+ *
+ * @internal
+ */
+async function writeEntry(
+  store: CacheStore,
+  key: string,
+  entry: CacheEntry,
+  ttl: number
+): Promise<void> {
+  try {
+    await store.set(key, entry, ttl);
+  } catch (error) {
+    console.error('Markdown cache write error:', error);
+  }
+}
+
+/**
+ * キャッシュを参照し、必要に応じて変換を実行
+ * 有効期限（maxAge）内のエントリはそのまま返し、stale-while-revalidateの猶予期間内であれば
+ * 期限切れのエントリを返しつつバックグラウンドで再変換する
+ * 変換関数がResponseを返した場合（リダイレクト時）やthrowした場合はキャッシュしない
+ *
+ * @param store - キャッシュストア
+ * @param key - キャッシュキー
+ * @param policy - 有効期限（秒）とstale-while-revalidateの猶予期間（秒）
+ * @param load - Markdownを取得する関数（リダイレクト時はResponseを返し、エラー時はthrowする）
+ * @returns 取得結果とキャッシュの参照結果
+ */
+export async function loadWithCache(
+  store: CacheStore,
+  key: string,
+  policy: { maxAge: number; staleWhileRevalidate: number },
+  load: () => Promise<CacheEntry | Response>
+): Promise<{ result: CacheEntry | Response; status: CacheStatus }> {
+  const ttl = policy.maxAge + policy.staleWhileRevalidate;
+  const entry = await readEntry(store, key);
+
+  if (entry) {
+    const age = (Date.now() - entry.createdAt) / 1000;
+    if (age <= policy.maxAge) {
+      return { result: entry, status: 'HIT' };
+    }
+
+    if (age <= ttl) {
+      let keys = revalidating.get(store);
+      if (!keys) {
+        keys = new Set();
+        revalidating.set(store, keys);
+      }
+      if (!keys.has(key)) {
+        const pending = keys;
+        pending.add(key);
+        load()
+          .then((result) =>
+            result instanceof Response ? undefined : writeEntry(store, key, result, ttl)
+          )
+          .catch((error) => {
+            // 元のページのエラー等の想定されたエラーは次回のリクエストで返す
+            if (!(error instanceof MarkdownError)) {
+              console.error('Markdown cache revalidation error:', error);
+            }
+          })
+          .finally(() => pending.delete(key));
+      }
+      return { result: entry, status: 'STALE' };
+    }
+  }
+
+  const result = await load();
+  if (!(result instanceof Response)) {
+    await writeEntry(store, key, result, ttl);
+  }
+  return { result, status: 'MISS' };
+}
@@ -0,0 +1,115 @@
+/**
+ * next-markdown コマンドラインインターフェース
+ *
+ * Node.js専用のモジュールのため、パッケージのルート（Edge Runtime互換）からはexportしない
+ *
+ * @packageDocumentation
+ */
+
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { exportStaticMarkdown } from './static-export';
+import type { StaticExportOptions } from './types';
+
+/** デフォルトのビルド済みHTMLディレクトリ（`output: 'export'`の出力先） */
+const DEFAULT_DIR = 'out';
+
+/** 使い方 */
+const USAGE = `Usage: next-markdown export [options]
+
+Options:
+  --dir <dir>        Directory containing the built HTML files (default: out)
+  --out <dir>        Directory to write .md files to (default: same as --dir)
+  --base-url <url>   Public URL of the site, used for links and llms.txt
+  --config <file>    CommonJS module exporting the converter options object
+  --llms             Also write llms.txt and llms-full.txt (requires --base-url)
+  -h, --help         Show this help`;
+
+/**
+ * 設定ファイルを読み込む
+ * Middleware/Route Handlerと同じオプションオブジェクトをexportしたCommonJSモジュールを想定する
+ *
+ * @internal
+ */
+async function loadConfig(file: string): Promise<Partial<StaticExportOptions>> {
+  const module = await import(resolve(file));
+  return module.default ?? module;
+}
+
+/**
+ * コマンドラインを実行
+ *
+ * @example
+ * ```bash
+ * next build && next-markdown export --dir out --base-url https://example.com --llms
+ * ```
+ *
+ * @param args - コマンドライン引数（`process.argv.slice(2)`）
+ * @returns 終了コード
+ */
+export async function runCli(args: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    return 1;
+  }
+
+  const { positionals, values } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals[0] !== 'export') {
+    console.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const config = values.config ? await loadConfig(values.config) : {};
+    const options: StaticExportOptions = {
+      ...config,
+      dir: values.dir ?? config.dir ?? DEFAULT_DIR,
+      outDir: values.out ?? config.outDir,
+      baseUrl: values['base-url'] ?? config.baseUrl,
+      // 設定ファイルのllmsオプション（見出しなど）を優先する
+      llms: config.llms || values.llms,
+    };
+    // llms.txtのリンクは絶対URLとするため、サイトのURLを必須とする
+    if (options.llms && !options.baseUrl) {
+      console.error('--base-url is required with --llms');
+      return 1;
+    }
+
+    const result = await exportStaticMarkdown(options);
+    console.log(
+      `Exported ${result.pages.length} pages to ${resolve(options.outDir ?? options.dir)}`
+    );
+    return 0;
+  } catch (error) {
+    console.error('Markdown export error:', error);
+    return 1;
+  }
+}
+
+/**
+ * コマンドライン引数を解析
+ *
+ * @internal
+ */
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string' },
+      out: { type: 'string' },
+      'base-url': { type: 'string' },
+      config: { type: 'string' },
+      llms: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * ETag/Last-Modifiedによる条件付きリクエスト（304 Not Modified）の処理
+ *
+ * @packageDocumentation
+ */
+
+import type { CacheEntry } from './types';
+
+/**
+ * Markdownの本文から強いETagを作成
+ * Edge RuntimeでもNode.jsでも動作するようWeb Crypto APIのSHA-256を使用する
+ *
+ * @param body - レスポンスの本文
+ * @returns ダブルクォートで囲まれたETag
+ * @example
+ * ```typescript
+ * await createETag('# Hello');
+ * // '"<SHA-256ダイジェストの先頭32桁>"'
+ * ```
+ */
+export async function createETag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .slice(0, 32);
+  return `"${hex}"`;
+}
+
+/**
+ * If-None-Matchヘッダーがいずれかのタグに一致するかを判定
+ * GET/HEADの条件付きリクエストでは弱い比較を用いるため、`W/`接頭辞は無視する
+ *
+ * @internal
+ */
+function matchesETag(ifNoneMatch: string, etag: string): boolean {
+  if (ifNoneMatch.trim() === '*') {
+    return true;
+  }
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((tag) => normalize(tag) === normalize(etag));
+}
+
+/**
+ * 条件付きリクエストに対して304 Not Modifiedを返すべきかを判定
+ * If-None-Matchがある場合はIf-Modified-Sinceを無視する（RFC 9110 13.2.2）
+ *
+ * @param request - リクエスト
+ * @param validators - レスポンスのETagとLast-Modified
+ * @returns 304を返すべき場合はtrue
+ * @example
+ * ```typescript
+ * if (isNotModified(request, { etag, lastModified })) {
+ *   return new Response(null, { status: 304, headers });
+ * }
+ * ```
+ */
+export function isNotModified(
+  request: Request,
+  validators: { etag?: string; lastModified?: string }
+): boolean {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return false;
+  }
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch !== null) {
+    return validators.etag !== undefined && matchesETag(ifNoneMatch, validators.etag);
+  }
+
+  const ifModifiedSince = request.headers.get('if-modified-since');
+  if (ifModifiedSince && validators.lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(validators.lastModified);
+    return Number.isFinite(since) && Number.isFinite(modified) && modified <= since;
+  }
+
+  return false;
+}
+
+/**
+ * キャッシュエントリの検証子をレスポンスヘッダーに設定し、条件付きリクエストを評価
+ * 304を返す場合は本文に関するヘッダーを取り除く
+ *
+ * @param request - リクエスト
+ * @param entry - 変換結果のキャッシュエントリ
+ * @param headers - レスポンスヘッダー（ETag/Last-Modifiedが追加される）
+ * @returns 304を返すべき場合はtrue
+ * @internal
+ */
+export async function applyValidators(
+  request: Request,
+  entry: CacheEntry,
+  headers: Headers
+): Promise<boolean> {
+  const etag = entry.etag ?? (await createETag(entry.markdown));
+  headers.set('ETag', etag);
+  if (entry.lastModified) {
+    headers.set('Last-Modified', entry.lastModified);
+  }
+
+  if (!isNotModified(request, { etag, lastModified: entry.lastModified })) {
+    return false;
+  }
+  headers.delete('Content-Type');
+  headers.delete('Content-Length');
+  return true;
+}
@@ -1,5 +1,9 @@
 import TurndownService from 'turndown';
-import type { TurndownOptions } from './types';
+import { applySelectorRules, extractMainContent } from './extractor';
+import { createFrontMatter } from './front-matter';
+import { gfm } from './gfm';
+import { parseHtml, parseTurndownRoot } from './parser';
+import type { ConvertOptions, MarkdownPlugin, TurndownOptions } from './types';
 import { addBaseTag } from './utils';
 
 /**
@@ -39,9 +43,18 @@ function createTurndownConfig(options?: TurndownOptions): {
   bulletListMarker: '-' | '+' | '*';
   [key: string]: unknown;
 } {
-  // 既知の3つのフィールドと残りのオプションを分離
-  const { headingStyle, codeBlockStyle, bulletListMarker, ...restOptions } =
-    options || {};
+  // 既知の3つのフィールドと拡張用フィールドを残りのオプションから分離
+  const {
+    headingStyle,
+    codeBlockStyle,
+    bulletListMarker,
+    flavor,
+    rules,
+    keep,
+    remove,
+    plugins,
+    ...restOptions
+  } = options || {};
 
   // デフォルト値をnullish coalescingで適用（undefinedの場合はデフォルト値を使用）
   return {
@@ -53,32 +66,143 @@ function createTurndownConfig(options?: TurndownOptions): {
   };
 }
 
+/**
+ * 設定済みTurndownServiceのキャッシュ
+ * 同じオプションオブジェクトに対してはインスタンスを再利用し、リクエストごとの再構築を避ける
+ */
+let configuredServices = new WeakMap<TurndownOptions, TurndownService>();
+
+/**
+ * オプションからTurndownServiceを作成し、ルールとプラグインを適用
+ *
+ * @param options - Turndownオプション
+ * @returns 設定済みのTurndownServiceインスタンス
+ * @internal
+ */
+function createTurndownService(options: TurndownOptions): TurndownService {
+  const service = new TurndownService(createTurndownConfig(options));
+
+  // GFM拡張はユーザー定義のルールで上書きできるよう最初に適用する
+  if (options.flavor === 'gfm') {
+    service.use(gfm);
+  }
+
+  for (const [key, rule] of Object.entries(options.rules ?? {})) {
+    service.addRule(key, rule);
+  }
+  if (options.keep) {
+    service.keep(options.keep);
+  }
+  if (options.remove) {
+    service.remove(options.remove);
+  }
+  for (const plugin of options.plugins ?? []) {
+    if (typeof plugin === 'function') {
+      // turndown-plugin-gfmなどのTurndownプラグインをそのまま受け付ける
+      service.use(plugin);
+    } else {
+      plugin.setup?.(service);
+    }
+  }
+
+  return service;
+}
+
+/**
+ * オプションに対応するTurndownServiceを取得
+ * オプションが提供されない場合はシングルトンインスタンスを使用
+ *
+ * @param options - Turndownオプション
+ * @returns TurndownServiceインスタンス
+ * @internal
+ */
+function getConfiguredTurndownService(options?: TurndownOptions): TurndownService {
+  if (!options) {
+    return getTurndownService();
+  }
+
+  let service = configuredServices.get(options);
+  if (!service) {
+    service = createTurndownService(options);
+    configuredServices.set(options, service);
+  }
+  return service;
+}
+
+/**
+ * オブジェクト形式のプラグインを取得
+ *
+ * @internal
+ */
+function getMarkdownPlugins(options?: TurndownOptions): MarkdownPlugin[] {
+  return (options?.plugins ?? []).filter(
+    (plugin): plugin is MarkdownPlugin => typeof plugin !== 'function'
+  );
+}
+
 /**
  * HTMLをMarkdownに変換
  *
  * @param html - 変換するHTML文字列
  * @param baseUrl - 相対URL解決のためのベースURL
  * @param options - Turndownオプション（オプション）
+ * @param convertOptions - 本文抽出・セレクタールール・フロントマターなどの追加設定（オプション）
  * @returns 変換されたMarkdown文字列
  */
 export function convertHtmlToMarkdown(
   html: string,
   baseUrl: string,
   options?: TurndownOptions,
+  convertOptions?: ConvertOptions,
 ): string {
   // <base>タグを追加して相対URLを解決
   const htmlWithBase = addBaseTag(html, baseUrl);
 
   // TurndownServiceで変換
-  // オプションが提供された場合は新しいインスタンスを作成
+  // オプションが提供された場合はオプションごとにキャッシュしたインスタンスを使用
   // オプションが提供されない場合はシングルトンインスタンスを使用
-  const service = options
-    ? new TurndownService(createTurndownConfig(options))
-    : getTurndownService();
+  const service = getConfiguredTurndownService(options);
+  const plugins = getMarkdownPlugins(options);
+  const postprocess = (markdown: string): string =>
+    plugins.reduce((result, plugin) => plugin.postprocess?.(result) ?? result, markdown);
+
+  // DOM操作が不要な場合は、Turndownが文字列を受け取った場合と同じ方法で解析して変換する
+  // パーサーはWeb APIのみに依存するため、Edge Runtimeでも動作する
+  if (
+    !convertOptions?.content &&
+    !convertOptions?.selectors &&
+    !convertOptions?.frontMatter &&
+    !plugins.some((plugin) => plugin.preprocess)
+  ) {
+    return postprocess(service.turndown(parseTurndownRoot(htmlWithBase, convertOptions?.parser)));
+  }
+
+  // 本文抽出やセレクタールールを適用する場合は解析したDOMを加工してから変換する
+  // includeセレクターにマッチした要素は本文抽出より優先される
+  const document = parseHtml(htmlWithBase, convertOptions?.parser);
+
+  // DOMを加工する前に<head>や構造化データからフロントマターを生成
+  const frontMatter = convertOptions?.frontMatter
+    ? createFrontMatter(
+        document,
+        baseUrl,
+        convertOptions.frontMatter === true ? {} : convertOptions.frontMatter,
+      )
+    : null;
+
+  for (const plugin of plugins) {
+    plugin.preprocess?.(document);
+  }
 
-  // TurndownはHTML文字列を直接受け取り、内部でjsdomを使用してDOM解析を行う
-  // jsdomはNode.js専用のため、Next.jsではRoute Handlerで runtime = 'nodejs' を指定する必要がある
-  return service.turndown(htmlWithBase);
+  const included = convertOptions?.selectors
+    ? applySelectorRules(document, convertOptions.selectors)
+    : null;
+  const root =
+    included ??
+    (convertOptions?.content ? extractMainContent(document, convertOptions.content) : null) ??
+    document.body;
+  const markdown = postprocess(service.turndown(root));
+  return frontMatter ? `${frontMatter}\n\n${markdown}` : markdown;
 }
 
 /**
@@ -93,4 +217,5 @@ export function convertHtmlToMarkdown(
  */
 export function resetTurndownService(): void {
   turndownServiceInstance = null;
+  configuredServices = new WeakMap();
 }
@@ -0,0 +1,8 @@
+/**
+ * @mixmark-io/domino の型定義
+ * パッケージ同梱の型定義は`domino`モジュールとして宣言されているため、使用する関数のみ再宣言する
+ */
+declare module '@mixmark-io/domino' {
+  /** HTML文字列を解析してドキュメントを作成 */
+  export function createDocument(html?: string, force?: boolean): Document;
+}
@@ -0,0 +1,251 @@
+/**
+ * 変換のエラーとエラーレスポンス（RFC 9457 Problem Details）
+ *
+ * @packageDocumentation
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import type {
+  MarkdownPipelineOptions,
+  MarkdownRejectionReason,
+  RequestValidationReason,
+} from './types';
+
+/** 問題の種類（`type`）のURIの基準（各種類の説明へのリンク） */
+const PROBLEM_TYPE_BASE =
+  'https://github.com/hideokamoto/nextjs-html-to-markdown-middleware/blob/main/docs/ERRORS.md#';
+
+/**
+ * エラーの詳細（`MarkdownError`のコンストラクター引数）
+ */
+export interface MarkdownErrorInit {
+  /** 問題の種類（`docs/ERRORS.md`の見出し、例: 'upstream-not-found'） */
+  type?: string;
+  /** 人が読むための詳細な説明（内部の情報を含めないこと） */
+  detail?: string;
+  /** ライフサイクルフックに通知する拒否・失敗の理由（デフォルト: 'error'） */
+  reason?: MarkdownRejectionReason;
+  /** エラーレスポンスに付与するヘッダー（例: Retry-After） */
+  headers?: Record<string, string>;
+  /** 元になったエラー */
+  cause?: unknown;
+}
+
+/**
+ * RFC 9457 Problem Detailsのオブジェクト
+ */
+export interface ProblemDetails {
+  /** 問題の種類を示すURI */
+  type: string;
+  /** 問題の種類の短い要約 */
+  title: string;
+  /** HTTPステータスコード */
+  status: number;
+  /** この発生に固有の説明 */
+  detail?: string;
+  /** この発生を示すURI（リクエストのパス） */
+  instance?: string;
+}
+
+/**
+ * Markdown変換のエラー
+ * パイプラインで発生したエラーはすべてこのクラス（またはサブクラス）として`onError`に渡され、
+ * `errorFormat`に応じてProblem Details（`application/problem+json`）またはMarkdownで返す
+ *
+ * @example
+ * ```typescript
+ * createMarkdownMiddleware({
+ *   onError: (error, request) => {
+ *     if (error instanceof UpstreamNotFound) {
+ *       return NextResponse.redirect(new URL('/404', request.url));
+ *     }
+ *     return null;
+ *   },
+ * });
+ * ```
+ */
+export class MarkdownError extends Error {
+  /** HTTPステータスコード */
+  readonly status: number;
+  /** 問題の種類の短い要約 */
+  readonly title: string;
+  /** 問題の種類（`docs/ERRORS.md`の見出し） */
+  readonly type: string;
+  /** 人が読むための詳細な説明 */
+  readonly detail?: string;
+  /** ライフサイクルフックに通知する拒否・失敗の理由 */
+  readonly reason: MarkdownRejectionReason;
+  /** エラーレスポンスに付与するヘッダー */
+  readonly headers: Record<string, string>;
+
+  /**
+   * @param status - HTTPステータスコード
+   * @param title - 問題の種類の短い要約
+   * @param init - エラーの詳細
+   */
+  constructor(status: number, title: string, init: MarkdownErrorInit = {}) {
+    super(init.detail ?? title, { cause: init.cause });
+    this.name = 'MarkdownError';
+    this.status = status;
+    this.title = title;
+    this.type = init.type ?? 'error';
+    this.detail = init.detail;
+    this.reason = init.reason ?? 'error';
+    this.headers = init.headers ?? {};
+  }
+
+  /**
+   * Problem Detailsのオブジェクトに変換
+   *
+   * @param instance - この発生を示すURI（リクエストのパス）
+   * @returns Problem Details
+   */
+  toProblem(instance?: string): ProblemDetails {
+    return {
+      type: `${PROBLEM_TYPE_BASE}${this.type}`,
+      title: this.title,
+      status: this.status,
+      ...(this.detail ? { detail: this.detail } : {}),
+      ...(instance ? { instance } : {}),
+    };
+  }
+}
+
+/**
+ * 元のページが存在しない（404）
+ */
+export class UpstreamNotFound extends MarkdownError {
+  constructor(detail = 'The page was not found') {
+    super(404, 'Not Found', { type: 'upstream-not-found', detail, reason: 'upstream-error' });
+    this.name = 'UpstreamNotFound';
+  }
+}
+
+/**
+ * 元のページが`maxRequestSize`を超えた（413）
+ */
+export class PayloadTooLarge extends MarkdownError {
+  /** サイズの上限（バイト） */
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(413, 'Payload Too Large', {
+      type: 'payload-too-large',
+      detail: `Request Entity Too Large: the page exceeds ${limit} bytes`,
+      reason: 'too-large',
+    });
+    this.name = 'PayloadTooLarge';
+    this.limit = limit;
+  }
+}
+
+/**
+ * 元のページがHTMLではない（415）
+ */
+export class UnsupportedContentType extends MarkdownError {
+  /** 元のページのContent-Type */
+  readonly contentType: string | null;
+
+  constructor(contentType: string | null) {
+    super(415, 'Unsupported Media Type', {
+      type: 'unsupported-content-type',
+      detail: 'Content-Type must be text/html or application/xhtml+xml',
+      reason: 'unsupported-content-type',
+    });
+    this.name = 'UnsupportedContentType';
+    this.contentType = contentType;
+  }
+}
+
+/**
+ * SSRF対策の検証で内部リクエストを拒否した（403）
+ */
+export class SsrfRejected extends MarkdownError {
+  /** 拒否した理由 */
+  readonly validationReason?: RequestValidationReason;
+
+  constructor(detail = 'Forbidden', validationReason?: RequestValidationReason) {
+    super(403, 'Forbidden', { type: 'ssrf-rejected', detail, reason: 'forbidden' });
+    this.name = 'SsrfRejected';
+    this.validationReason = validationReason;
+  }
+}
+
+/**
+ * 元のページの取得がタイムアウトした（504）
+ */
+export class Timeout extends MarkdownError {
+  /** タイムアウト（ミリ秒） */
+  readonly timeout: number;
+
+  constructor(timeout: number, cause?: unknown) {
+    super(504, 'Gateway Timeout', {
+      type: 'timeout',
+      detail: `Request Timeout: the page did not respond within ${timeout}ms`,
+      reason: 'timeout',
+      cause,
+    });
+    this.name = 'Timeout';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * エラーをMarkdownのエラー文書に変換（Markdownを要求したエージェント向け）
+ *
+ * @internal
+ */
+function formatMarkdownError(problem: ProblemDetails): string {
+  const lines = [`# ${problem.status} ${problem.title}`, ''];
+  if (problem.detail) {
+    lines.push(problem.detail, '');
+  }
+  lines.push(`- Status: ${problem.status}`, `- Type: <${problem.type}>`);
+  if (problem.instance) {
+    lines.push(`- Instance: ${problem.instance}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * エラーレスポンスの形式を決定
+ * `auto`の場合はAcceptヘッダーにJSONが含まれる場合のみProblem Details、それ以外はMarkdownを返す
+ *
+ * @internal
+ */
+function resolveErrorFormat(
+  request: NextRequest | undefined,
+  format: MarkdownPipelineOptions['errorFormat']
+): 'problem+json' | 'markdown' {
+  if (format !== 'auto') {
+    return format ?? 'problem+json';
+  }
+  const accept = request?.headers.get('accept') ?? '';
+  return /application\/(?:problem\+)?json/i.test(accept) ? 'problem+json' : 'markdown';
+}
+
+/**
+ * エラーをエラーレスポンスに変換
+ *
+ * @param error - 変換のエラー
+ * @param request - Next.jsリクエストオブジェクト（`instance`と`auto`形式の判定に使用）
+ * @param options - パイプラインオプション（`errorFormat`）
+ * @returns Problem DetailsまたはMarkdownのエラーレスポンス
+ * @internal
+ */
+export function renderError(
+  error: MarkdownError,
+  request?: NextRequest,
+  options: Pick<MarkdownPipelineOptions, 'errorFormat'> = {}
+): Response {
+  const problem = error.toProblem(request?.nextUrl.pathname);
+  const markdown = resolveErrorFormat(request, options.errorFormat) === 'markdown';
+
+  return new NextResponse(markdown ? formatMarkdownError(problem) : JSON.stringify(problem), {
+    status: error.status,
+    headers: {
+      'Content-Type': markdown ? 'text/markdown; charset=utf-8' : 'application/problem+json',
+      ...error.headers,
+    },
+  });
+}
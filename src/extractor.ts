@@ -0,0 +1,299 @@
+/**
+ * 本文抽出（Readabilityスタイル）
+ * ナビゲーション、Cookieバナー、フッター等のボイラープレートを除去し、
+ * 記事本文に相当する要素を選択する
+ *
+ * @packageDocumentation
+ */
+
+import type { ContentOptions, SelectorRules } from './types';
+
+/** 本文ルートとして優先するデフォルトのセレクター（先にマッチしたものを使用） */
+const DEFAULT_ROOT_SELECTORS = ['[data-markdown-root]', 'main', 'article', '[role="main"]'];
+
+/** 本文ルートの内外を問わず除去する要素 */
+const NOISE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'nav',
+  'aside',
+  'form',
+  'dialog',
+  '[role="navigation"]',
+  '[role="complementary"]',
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+];
+
+/** スコアリング時に本文候補から除去するページ全体の枠要素 */
+const FRAME_SELECTORS = ['header', 'footer', '[role="banner"]', '[role="contentinfo"]'];
+
+/** 本文ルート内でも除去するボイラープレートのclass/id */
+const BOILERPLATE_PATTERN =
+  /advert|banner|cookie|consent|gdpr|modal|newsletter|popup|related|share|sidebar|social|sponsor|subscribe/i;
+
+/** 本文である可能性が低いclass/id */
+const UNLIKELY_PATTERN =
+  /breadcrumb|combx|comment|community|disqus|extra|footer|header|menu|nav|pager|pagination|promo|remark|shoutbox|skyscraper/i;
+
+/** UNLIKELY_PATTERNにマッチしても本文の可能性があるclass/id */
+const MAYBE_PATTERN = /and|article|body|column|content|main|shadow/i;
+
+/** 本文らしさを加点するclass/id */
+const POSITIVE_PATTERN =
+  /article|blog|body|content|entry|h-entry|hentry|main|page|post|story|text/i;
+
+/** 本文らしさを減点するclass/id */
+const NEGATIVE_PATTERN =
+  /-ad-|banner|combx|comment|com-|contact|foot|footnote|masthead|media|meta|promo|related|scroll|share|shopping|sidebar|sponsor|tags|tool|widget/i;
+
+/** スコアリング対象となる段落要素 */
+const SCORABLE_SELECTOR = 'p, pre, td, blockquote';
+
+/** スコアリング対象とする段落の最小文字数 */
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * 要素のclass属性とid属性を連結した文字列を取得
+ *
+ * @internal
+ */
+function getClassAndId(element: Element): string {
+  return `${element.getAttribute('class') ?? ''} ${element.getAttribute('id') ?? ''}`;
+}
+
+/**
+ * class/idから要素の重みを計算
+ *
+ * @internal
+ */
+function getClassWeight(element: Element): number {
+  const classAndId = getClassAndId(element);
+  let weight = 0;
+  if (POSITIVE_PATTERN.test(classAndId)) {
+    weight += 25;
+  }
+  if (NEGATIVE_PATTERN.test(classAndId)) {
+    weight -= 25;
+  }
+  return weight;
+}
+
+/**
+ * タグ名とclass/idから候補要素の初期スコアを計算
+ *
+ * @internal
+ */
+function getInitialScore(element: Element): number {
+  let score = getClassWeight(element);
+  switch (element.tagName.toLowerCase()) {
+    case 'div':
+    case 'section':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+      score -= 3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score -= 5;
+      break;
+  }
+  return score;
+}
+
+/**
+ * 要素内のテキストのうちリンクテキストが占める割合を計算
+ *
+ * @internal
+ */
+function getLinkDensity(element: Element): number {
+  const textLength = getTextLength(element);
+  if (textLength === 0) {
+    return 0;
+  }
+  let linkLength = 0;
+  for (const link of Array.from(element.querySelectorAll('a'))) {
+    linkLength += getTextLength(link);
+  }
+  return linkLength / textLength;
+}
+
+/**
+ * 空白を正規化した要素のテキスト長を取得
+ *
+ * @internal
+ */
+function getTextLength(element: Element): number {
+  return (element.textContent ?? '').replace(/\s+/g, ' ').trim().length;
+}
+
+/**
+ * セレクターにマッチする要素をすべて除去
+ *
+ * @internal
+ */
+function removeMatching(root: Element, selectors: string[]): void {
+  for (const element of Array.from(root.querySelectorAll(selectors.join(',')))) {
+    element.remove();
+  }
+}
+
+/**
+ * class/idがパターンにマッチする要素を除去
+ *
+ * @internal
+ */
+function removeByClassPattern(root: Element, pattern: RegExp, exception?: RegExp): void {
+  for (const element of Array.from(root.querySelectorAll('[class], [id]'))) {
+    const classAndId = getClassAndId(element);
+    if (pattern.test(classAndId) && !exception?.test(classAndId)) {
+      element.remove();
+    }
+  }
+}
+
+/**
+ * 段落のスコアを親要素に伝播させ、最もスコアの高い候補要素を選択
+ *
+ * @internal
+ */
+function findTopCandidate(body: HTMLElement): HTMLElement | null {
+  const scores = new Map<HTMLElement, number>();
+
+  for (const paragraph of Array.from(body.querySelectorAll(SCORABLE_SELECTOR))) {
+    const text = (paragraph.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      continue;
+    }
+
+    // 読点の数と文字数で段落の本文らしさを評価（日本語の読点も考慮）
+    const contentScore =
+      1 + text.split(/[,、，]/).length + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = paragraph.parentElement;
+    const grandparent = parent?.parentElement;
+    for (const [ancestor, divider] of [
+      [parent, 1],
+      [grandparent, 2],
+    ] as const) {
+      if (!ancestor || ancestor === body.parentElement) {
+        continue;
+      }
+      const current = scores.get(ancestor) ?? getInitialScore(ancestor);
+      scores.set(ancestor, current + contentScore / divider);
+    }
+  }
+
+  let topCandidate: HTMLElement | null = null;
+  let topScore = 0;
+  for (const [candidate, score] of scores) {
+    const finalScore = score * (1 - getLinkDensity(candidate));
+    if (finalScore > topScore) {
+      topCandidate = candidate;
+      topScore = finalScore;
+    }
+  }
+
+  return topCandidate;
+}
+
+/**
+ * ドキュメントから本文要素を抽出
+ * `rootSelectors`にマッチする要素があればそれを本文とし、
+ * なければReadabilityスタイルのスコアリングで本文を推定する
+ * 抽出のためにドキュメントを直接変更する
+ *
+ * @param document - 解析済みのドキュメント
+ * @param options - 本文抽出設定
+ * @returns 本文要素（推定できない場合は<body>）
+ * @example
+ * ```typescript
+ * const root = extractMainContent(document, { rootSelectors: ['.prose'] });
+ * const markdown = turndownService.turndown(root);
+ * ```
+ */
+export function extractMainContent(document: Document, options: ContentOptions = {}): HTMLElement {
+  const body = document.body;
+  if (options.mode === 'full') {
+    return body;
+  }
+
+  removeMatching(body, NOISE_SELECTORS);
+
+  for (const selector of options.rootSelectors ?? DEFAULT_ROOT_SELECTORS) {
+    const root = body.querySelector<HTMLElement>(selector);
+    if (root) {
+      removeByClassPattern(root, BOILERPLATE_PATTERN, MAYBE_PATTERN);
+      return root;
+    }
+  }
+
+  removeMatching(body, FRAME_SELECTORS);
+  removeByClassPattern(body, BOILERPLATE_PATTERN, MAYBE_PATTERN);
+  removeByClassPattern(body, UNLIKELY_PATTERN, MAYBE_PATTERN);
+
+  return findTopCandidate(body) ?? body;
+}
+
+/**
+ * CSSセレクタールールをドキュメントに適用
+ * `remove`にマッチする要素を除去したうえで、`include`にマッチする要素を
+ * 文書順に1つのコンテナにまとめて返す
+ * Turndownの`remove()`と異なり、タグ名以外の任意のセレクターを指定できる
+ *
+ * @param document - 解析済みのドキュメント
+ * @param rules - セレクタールール
+ * @returns includeにマッチした要素をまとめたコンテナ（includeが未指定またはマッチしない場合はnull）
+ * @example
+ * ```typescript
+ * const root = applySelectorRules(document, {
+ *   include: ['main .prose'],
+ *   remove: ['.ad', '[aria-hidden=true]'],
+ * });
+ * ```
+ */
+export function applySelectorRules(document: Document, rules: SelectorRules): HTMLElement | null {
+  if (rules.remove && rules.remove.length > 0) {
+    removeMatching(document.body, rules.remove);
+  }
+
+  if (!rules.include || rules.include.length === 0) {
+    return null;
+  }
+
+  // 入れ子でマッチした要素は外側の要素に含まれるため除外する
+  const selected: Element[] = [];
+  for (const element of Array.from(document.body.querySelectorAll(rules.include.join(',')))) {
+    if (!selected.some((parent) => parent.contains(element))) {
+      selected.push(element);
+    }
+  }
+  if (selected.length === 0) {
+    return null;
+  }
+
+  const container = document.createElement('div');
+  for (const element of selected) {
+    container.appendChild(element);
+  }
+  return container;
+}
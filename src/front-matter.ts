@@ -0,0 +1,347 @@
+/**
+ * ページメタデータからのフロントマター生成
+ *
+ * @packageDocumentation
+ */
+
+import type { NextRequest } from 'next/server';
+import type { FrontMatterFields, FrontMatterOptions } from './types';
+
+/** 公開日時として参照するセレクター（先にマッチしたものを使用） */
+const PUBLISHED_SELECTORS = [
+  'meta[property="article:published_time"]',
+  'meta[itemprop="datePublished"]',
+  'meta[name="date"]',
+];
+
+/** 更新日時として参照するセレクター（先にマッチしたものを使用） */
+const MODIFIED_SELECTORS = [
+  'meta[property="article:modified_time"]',
+  'meta[itemprop="dateModified"]',
+  'meta[name="last-modified"]',
+];
+
+/** YAML/TOMLでクォートせずに書けるキー */
+const BARE_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * セレクターにマッチした最初の<meta>要素のcontent属性を取得
+ *
+ * @internal
+ */
+function getMetaContent(document: Document, selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const content = document.querySelector(selector)?.getAttribute('content')?.trim();
+    if (content) {
+      return content;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * <script type="application/ld+json">の内容を解析
+ * 不正なJSONは無視する
+ *
+ * @internal
+ */
+function getJsonLd(document: Document): unknown[] {
+  const items: unknown[] = [];
+  for (const script of Array.from(
+    document.querySelectorAll('script[type="application/ld+json"]')
+  )) {
+    try {
+      const parsed: unknown = JSON.parse(script.textContent ?? '');
+      items.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    } catch {
+      // 不正なJSON-LDはフロントマターに含めない
+    }
+  }
+  return items;
+}
+
+/**
+ * JSON-LDから指定したプロパティの文字列値を取得
+ *
+ * @internal
+ */
+function getJsonLdString(items: unknown[], key: string): string | undefined {
+  for (const item of items) {
+    if (item && typeof item === 'object') {
+      const value = (item as Record<string, unknown>)[key];
+      if (typeof value === 'string' && value) {
+        return value;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * URLを絶対URLに解決
+ *
+ * @internal
+ */
+function resolveUrl(href: string, baseUrl: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * ドキュメントの<head>からフロントマター用のメタデータを抽出
+ * 値が取得できなかったフィールドは含まれない
+ *
+ * @param document - 解析済みのドキュメント
+ * @param baseUrl - ページのURL（canonicalがない場合のurlフィールドに使用）
+ * @returns メタデータ（title, description, url, lang, datePublished, dateModified, og, jsonLd）
+ * @example
+ * ```typescript
+ * const fields = extractPageMetadata(document, 'https://example.com/about');
+ * // { title: 'About', url: 'https://example.com/about', lang: 'ja', og: { type: 'website' } }
+ * ```
+ */
+export function extractPageMetadata(document: Document, baseUrl: string): FrontMatterFields {
+  const fields: FrontMatterFields = {};
+  const jsonLd = getJsonLd(document);
+
+  const title =
+    document.querySelector('title')?.textContent?.trim() ||
+    getMetaContent(document, ['meta[property="og:title"]']);
+  if (title) {
+    fields.title = title;
+  }
+
+  const description = getMetaContent(document, [
+    'meta[name="description"]',
+    'meta[property="og:description"]',
+  ]);
+  if (description) {
+    fields.description = description;
+  }
+
+  const canonical = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  fields.url = canonical ? resolveUrl(canonical, baseUrl) : baseUrl;
+
+  const lang = document.documentElement.getAttribute('lang')?.trim();
+  if (lang) {
+    fields.lang = lang;
+  }
+
+  const datePublished =
+    getMetaContent(document, PUBLISHED_SELECTORS) ?? getJsonLdString(jsonLd, 'datePublished');
+  if (datePublished) {
+    fields.datePublished = datePublished;
+  }
+
+  const dateModified =
+    getMetaContent(document, MODIFIED_SELECTORS) ?? getJsonLdString(jsonLd, 'dateModified');
+  if (dateModified) {
+    fields.dateModified = dateModified;
+  }
+
+  const og: Record<string, string> = {};
+  for (const meta of Array.from(document.querySelectorAll('meta[property^="og:"]'))) {
+    const key = meta.getAttribute('property')?.slice(3);
+    const content = meta.getAttribute('content')?.trim();
+    if (key && content && !(key in og)) {
+      og[key] = content;
+    }
+  }
+  if (Object.keys(og).length > 0) {
+    fields.og = og;
+  }
+
+  if (jsonLd.length > 0) {
+    fields.jsonLd = jsonLd;
+  }
+
+  return fields;
+}
+
+/**
+ * キーを必要に応じてクォート
+ *
+ * @internal
+ */
+function formatKey(key: string): string {
+  return BARE_KEY_PATTERN.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * 値が出力対象かどうかを判定（undefinedと関数は出力しない）
+ *
+ * @internal
+ */
+function isSerializable(value: unknown): boolean {
+  return value !== undefined && typeof value !== 'function';
+}
+
+/**
+ * 値がネストしたオブジェクトかどうかを判定
+ *
+ * @internal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+  );
+}
+
+/**
+ * 値をYAMLの行に変換
+ * 文字列はJSON互換のダブルクォート形式、配列内のオブジェクトはフロー形式で出力する
+ *
+ * @internal
+ */
+function toYamlLines(fields: Record<string, unknown>, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(fields)) {
+    if (!isSerializable(value)) {
+      continue;
+    }
+    const name = formatKey(key);
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      lines.push(`${indent}${name}:`, ...toYamlLines(value, `${indent}  `));
+    } else if (Array.isArray(value) && value.length > 0) {
+      lines.push(`${indent}${name}:`);
+      for (const item of value) {
+        lines.push(
+          `${indent}  - ${JSON.stringify(item instanceof Date ? item.toISOString() : item)}`
+        );
+      }
+    } else {
+      lines.push(
+        `${indent}${name}: ${JSON.stringify(value instanceof Date ? value.toISOString() : value)}`
+      );
+    }
+  }
+  return lines;
+}
+
+/**
+ * 値をTOMLの値表現に変換
+ * TOMLにはnullがないため、nullはundefinedとして扱う
+ *
+ * @internal
+ */
+function toTomlValue(value: unknown): string | undefined {
+  if (value === null || !isSerializable(value)) {
+    return undefined;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(toTomlValue).filter((item): item is string => item !== undefined);
+    return `[${items.join(', ')}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+      .map(([key, item]) => [key, toTomlValue(item)] as const)
+      .filter((entry): entry is readonly [string, string] => entry[1] !== undefined)
+      .map(([key, item]) => `${formatKey(key)} = ${item}`);
+    return `{ ${entries.join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 値をTOMLの行に変換
+ * トップレベルのオブジェクトはテーブル、それより深いものはインラインテーブルとして出力する
+ *
+ * @internal
+ */
+function toTomlLines(fields: Record<string, unknown>, nested = false): string[] {
+  const lines: string[] = [];
+  const tables: string[] = [];
+  for (const [key, value] of Object.entries(fields)) {
+    if (!nested && isPlainObject(value)) {
+      tables.push('', `[${formatKey(key)}]`, ...toTomlLines(value, true));
+      continue;
+    }
+    const serialized = toTomlValue(value);
+    if (serialized !== undefined) {
+      lines.push(`${formatKey(key)} = ${serialized}`);
+    }
+  }
+  return [...lines, ...tables];
+}
+
+/**
+ * フィールドをフロントマターのブロックに変換
+ *
+ * @param fields - フロントマターのフィールド
+ * @param format - 出力形式（デフォルト: 'yaml'）
+ * @returns 区切り線（YAMLは`---`、TOMLは`+++`）で囲まれたフロントマター
+ * @example
+ * ```typescript
+ * serializeFrontMatter({ title: 'About', lang: 'ja' });
+ * // ---
+ * // title: "About"
+ * // lang: "ja"
+ * // ---
+ * ```
+ */
+export function serializeFrontMatter(
+  fields: FrontMatterFields,
+  format: 'yaml' | 'toml' = 'yaml'
+): string {
+  if (format === 'toml') {
+    return ['+++', ...toTomlLines(fields), '+++'].join('\n');
+  }
+  return ['---', ...toYamlLines(fields, ''), '---'].join('\n');
+}
+
+/**
+ * ドキュメントからフロントマターを生成
+ *
+ * @param document - 解析済みのドキュメント
+ * @param baseUrl - ページのURL
+ * @param options - フロントマター設定
+ * @returns フロントマター文字列
+ * @internal
+ */
+export function createFrontMatter(
+  document: Document,
+  baseUrl: string,
+  options: FrontMatterOptions
+): string {
+  const metadata = extractPageMetadata(document, baseUrl);
+  const fields = options.transform ? options.transform(metadata) : metadata;
+  return serializeFrontMatter(fields, options.format);
+}
+
+/**
+ * フロントマター設定にリクエストを結びつける
+ * `transform`フックがリクエストを参照できるようにする
+ *
+ * @param options - Middleware/Route Handlerのフロントマター設定
+ * @param request - Next.jsリクエストオブジェクト
+ * @param locale - `lang`として出力するロケール（`transform`の結果より優先）
+ * @returns 変換時に使用するフロントマター設定（無効な場合はundefined）
+ * @internal
+ */
+export function bindFrontMatterRequest(
+  options: boolean | FrontMatterOptions | undefined,
+  request: NextRequest,
+  locale?: string
+): FrontMatterOptions | undefined {
+  if (!options) {
+    return undefined;
+  }
+  const resolved = options === true ? {} : options;
+  const { transform } = resolved;
+  if (!transform && !locale) {
+    return resolved;
+  }
+  return {
+    ...resolved,
+    transform: (fields) => {
+      const transformed = transform ? transform(fields, request) : fields;
+      return locale ? { ...transformed, lang: locale } : transformed;
+    },
+  };
+}
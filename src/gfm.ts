@@ -0,0 +1,211 @@
+/**
+ * GitHub Flavored Markdown（GFM）拡張
+ * テーブル、取り消し線、タスクリストをGFMの記法に変換するTurndownプラグイン
+ *
+ * @packageDocumentation
+ */
+
+import type TurndownService from 'turndown';
+
+/** 取り消し線として扱うタグ */
+const STRIKETHROUGH_TAGS = ['DEL', 'S', 'STRIKE'];
+
+/** テーブルのセクション要素 */
+const TABLE_SECTION_TAGS = ['THEAD', 'TBODY', 'TFOOT'];
+
+/** テーブルのセル要素 */
+const TABLE_CELL_TAGS = ['TH', 'TD'];
+
+/**
+ * テーブル直下（ネストしたテーブルを除く）の行を取得
+ *
+ * @internal
+ */
+function getTableRows(table: HTMLElement): HTMLElement[] {
+  const rows: HTMLElement[] = [];
+  for (const child of Array.from(table.children) as HTMLElement[]) {
+    if (child.nodeName === 'TR') {
+      rows.push(child);
+    } else if (TABLE_SECTION_TAGS.includes(child.nodeName)) {
+      for (const row of Array.from(child.children) as HTMLElement[]) {
+        if (row.nodeName === 'TR') {
+          rows.push(row);
+        }
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * 行のセルを取得
+ *
+ * @internal
+ */
+function getRowCells(row: HTMLElement): HTMLElement[] {
+  return (Array.from(row.children) as HTMLElement[]).filter((cell) =>
+    TABLE_CELL_TAGS.includes(cell.nodeName)
+  );
+}
+
+/**
+ * セルが結合されているか（colspan/rowspanが2以上か）を判定
+ *
+ * @internal
+ */
+function isMergedCell(cell: HTMLElement): boolean {
+  return ['colspan', 'rowspan'].some(
+    (name) => Number.parseInt(cell.getAttribute(name) ?? '1', 10) > 1
+  );
+}
+
+/**
+ * align属性またはCSSのtext-alignからセルの配置を取得
+ *
+ * @internal
+ */
+function getCellAlignment(cell: HTMLElement | undefined): 'left' | 'center' | 'right' | null {
+  if (!cell) {
+    return null;
+  }
+  const align =
+    cell.getAttribute('align') ??
+    /text-align\s*:\s*(left|center|right)/i.exec(cell.getAttribute('style') ?? '')?.[1];
+  const normalized = align?.trim().toLowerCase();
+  return normalized === 'left' || normalized === 'center' || normalized === 'right'
+    ? normalized
+    : null;
+}
+
+/**
+ * 配置に対応する区切り行のセルを作成
+ *
+ * @internal
+ */
+function createSeparator(alignment: 'left' | 'center' | 'right' | null): string {
+  switch (alignment) {
+    case 'left':
+      return ':---';
+    case 'center':
+      return ':---:';
+    case 'right':
+      return '---:';
+    default:
+      return '---';
+  }
+}
+
+/**
+ * セルの内容をテーブルの1行に収まるよう整形
+ *
+ * @internal
+ */
+function formatCell(markdown: string): string {
+  return markdown
+    .replace(/\s*\n+\s*/g, ' ')
+    .replace(/\|/g, '\\|')
+    .trim();
+}
+
+/**
+ * セルの値を行の形式に変換
+ *
+ * @internal
+ */
+function formatRow(cells: string[]): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * テーブルをGFMのパイプテーブルに変換
+ * セル結合やネストしたテーブルはパイプテーブルで表現できないため、HTMLのまま出力する
+ *
+ * @internal
+ */
+function convertTable(service: TurndownService, table: HTMLElement): string {
+  const rows = getTableRows(table);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const cellRows = rows.map(getRowCells);
+  if (cellRows.some((cells) => cells.some(isMergedCell)) || table.querySelector('table')) {
+    return `\n\n${table.outerHTML}\n\n`;
+  }
+
+  // 最初の行を見出し行とし、列数は最も多い行に合わせる
+  const columnCount = Math.max(...cellRows.map((cells) => cells.length));
+  const matrix = cellRows.map((cells) => {
+    const values = cells.map((cell) => formatCell(service.turndown(cell)));
+    while (values.length < columnCount) {
+      values.push('');
+    }
+    return values;
+  });
+
+  const separator = Array.from({ length: columnCount }, (_, index) =>
+    createSeparator(getCellAlignment(cellRows[0][index]) ?? getCellAlignment(cellRows[1]?.[index]))
+  );
+
+  const lines = [formatRow(matrix[0]), formatRow(separator), ...matrix.slice(1).map(formatRow)];
+
+  const caption = Array.from(table.children).find((child) => child.nodeName === 'CAPTION');
+  const captionText = caption?.textContent?.replace(/\s+/g, ' ').trim();
+  if (captionText) {
+    lines.unshift(captionText, '');
+  }
+
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * タスクリストのチェックボックスかどうかを判定
+ * <li>直下、または<li>内の<p>/<label>直下のチェックボックスを対象とする
+ *
+ * @internal
+ */
+function isTaskListCheckbox(node: HTMLElement): boolean {
+  if (node.nodeName !== 'INPUT' || node.getAttribute('type')?.toLowerCase() !== 'checkbox') {
+    return false;
+  }
+  const parent = node.parentNode;
+  if (parent?.nodeName === 'LI') {
+    return true;
+  }
+  return (
+    (parent?.nodeName === 'P' || parent?.nodeName === 'LABEL') &&
+    parent.parentNode?.nodeName === 'LI'
+  );
+}
+
+/**
+ * GFM拡張を適用するTurndownプラグイン
+ * `TurndownOptions`の`flavor: 'gfm'`を指定すると自動的に適用される
+ *
+ * @param service - TurndownServiceインスタンス
+ * @example
+ * ```typescript
+ * const service = new TurndownService();
+ * service.use(gfm);
+ * ```
+ */
+export function gfm(service: TurndownService): void {
+  service.addRule('gfmStrikethrough', {
+    filter: (node) => STRIKETHROUGH_TAGS.includes(node.nodeName),
+    replacement: (content) => `~~${content}~~`,
+  });
+
+  service.addRule('gfmTaskListItem', {
+    filter: isTaskListCheckbox,
+    replacement: (_content, node) => {
+      const marker = (node as HTMLElement).hasAttribute('checked') ? '[x]' : '[ ]';
+      // 後続のテキストが空白で始まる場合は空白を重ねない
+      return /^\s/.test(node.nextSibling?.textContent ?? '') ? marker : `${marker} `;
+    },
+  });
+
+  service.addRule('gfmTable', {
+    filter: 'table',
+    replacement: (_content, node) => convertTable(service, node as HTMLElement),
+  });
+}
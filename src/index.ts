@@ -6,17 +6,83 @@
 
 export { createMarkdownMiddleware, handleMarkdownRequest } from './middleware';
 export { convertHtmlToMarkdown, resetTurndownService } from './converter';
+export { runMarkdownPipeline, type MarkdownPipelineTarget } from './pipeline';
+export { createLlmsTxtHandler } from './llms';
+export { createETag, isNotModified } from './conditional';
+export {
+  createMemoryCacheStore,
+  type CacheStatus,
+  type MemoryCacheStoreOptions,
+} from './cache';
+export { createMemoryRateLimitStore, type MemoryRateLimitStoreOptions } from './rate-limit';
+export { createTracingHooks } from './observability';
+export {
+  MarkdownError,
+  UpstreamNotFound,
+  PayloadTooLarge,
+  UnsupportedContentType,
+  SsrfRejected,
+  Timeout,
+  type MarkdownErrorInit,
+  type ProblemDetails,
+} from './errors';
+export { applySelectorRules, extractMainContent } from './extractor';
+export { extractPageMetadata, serializeFrontMatter } from './front-matter';
+export { gfm } from './gfm';
+export { parseHtml } from './parser';
+export { prefersMarkdown, resolveMarkdownPath } from './utils';
 export {
   createMarkdownHandler,
   createMarkdownRewrite,
   type MarkdownRouteHandlerOptions,
+  type MarkdownRewriteOptions,
 } from './app-router';
+export {
+  createMarkdownApiRoute,
+  createMarkdownRewrites,
+  type MarkdownApiRouteOptions,
+  type MarkdownRewriteRule,
+} from './pages-router';
 export type {
+  MarkdownPipelineOptions,
   MarkdownMiddlewareOptions,
   CacheOptions,
+  CacheEntry,
+  CacheStore,
   HeadersOptions,
+  AuthOptions,
   ExcludeOptions,
+  MarkdownUrlMapping,
+  LocaleOptions,
+  RedirectOptions,
+  RateLimitOptions,
+  RateLimitStore,
+  RateLimitBucket,
+  RateLimitResult,
+  ConcurrencyOptions,
+  MarkdownLifecycleHooks,
+  MarkdownEvent,
+  MarkdownFetchedEvent,
+  MarkdownConvertedEvent,
+  MarkdownResponseEvent,
+  MarkdownRejectedEvent,
+  MarkdownRejectionReason,
+  MarkdownTimings,
+  MarkdownTransformContext,
+  TracingTracer,
+  TracingSpan,
   TurndownOptions,
+  MarkdownPlugin,
+  ContentOptions,
+  ConvertOptions,
+  SelectorRules,
+  SelectorRule,
+  FrontMatterFields,
+  FrontMatterOptions,
+  HtmlParser,
+  LlmsTxtOptions,
+  LlmsTxtPage,
   RequestValidationResult,
+  RequestValidationReason,
 } from './types';
 
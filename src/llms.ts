@@ -0,0 +1,523 @@
+/**
+ * /llms.txt と /llms-full.txt のRoute Handler
+ * サイトのページ一覧（llms.txt）と、各ページのMarkdownを連結した全文（llms-full.txt）を生成する
+ *
+ * @packageDocumentation
+ */
+
+import type { NextRequest } from 'next/server';
+import { loadOnce } from './cache';
+import { createETag } from './conditional';
+import { convertHtmlToMarkdown } from './converter';
+import { MarkdownError, Timeout } from './errors';
+import { bindFrontMatterRequest, extractPageMetadata } from './front-matter';
+import { byteLength, emit } from './observability';
+import { parseHtml } from './parser';
+import {
+  type PipelineState,
+  assertInternalTarget,
+  createFlightKey,
+  discardBody,
+  fetchPageWithRedirects,
+  guardResponse,
+  handleError,
+  loadEntry,
+  markPrivate,
+  observeResponse,
+  readBody,
+  respond,
+  shouldCoalesce,
+  tooManyRequests,
+  withoutCacheStore,
+} from './pipeline';
+import { consumeRateLimit, withConcurrencyLimit } from './rate-limit';
+import type { CacheEntry, LlmsTxtOptions, LlmsTxtPage, MarkdownTimings } from './types';
+import {
+  applyAuthHeaders,
+  buildAbsoluteUrl,
+  extractSafeHeaders,
+  resolveOrigin,
+  resolveSelectorRules,
+  toMarkdownUrl,
+  toUpstreamUrl,
+  validateInternalRequest,
+} from './utils';
+
+/** デフォルトのsitemapのパス */
+const DEFAULT_SITEMAP_PATH = '/sitemap.xml';
+
+/** デフォルトの最大ページ数 */
+const DEFAULT_MAX_PAGES = 100;
+
+/**
+ * デフォルトのllms-full.txtの最大サイズ（5MB）
+ *
+ * @internal
+ */
+export const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * 見出しが指定されていないページのセクション名
+ *
+ * @internal
+ */
+export const DEFAULT_SECTION = 'Pages';
+
+/** 参照するsitemapの最大数（sitemap index内の子sitemapを含む） */
+const MAX_SITEMAPS = 10;
+
+/**
+ * 取得したページの内容
+ *
+ * @internal
+ */
+export interface LoadedPage {
+  /** ページのURL */
+  url: URL;
+  /** MarkdownのURL */
+  markdownUrl: string;
+  /** タイトル */
+  title: string;
+  /** 説明 */
+  description?: string;
+  /** セクション名 */
+  section: string;
+  /** 変換済みMarkdown（llms-full.txtの場合のみ） */
+  markdown?: string;
+}
+
+/**
+ * XMLの定義済み実体参照をデコード
+ *
+ * @internal
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * sitemapから<loc>の値を抽出
+ *
+ * @param xml - sitemapのXML
+ * @returns sitemap indexの場合は子sitemapのURL、それ以外はページのURL
+ * @internal
+ */
+function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locs = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g), (match) =>
+    decodeXmlEntities(match[1])
+  );
+  return /<sitemapindex[\s>]/.test(xml)
+    ? { pages: [], sitemaps: locs }
+    : { pages: locs, sitemaps: [] };
+}
+
+/**
+ * sitemapを取得してページのパス名を収集
+ * 外部ホストを指すURLは内部リクエストの検証で除外する
+ *
+ * @internal
+ */
+async function collectSitemapPages(
+  request: NextRequest,
+  headers: Headers,
+  options: LlmsTxtOptions,
+  maxPages: number,
+  origin?: string
+): Promise<string[]> {
+  const sitemapHeaders = new Headers(headers);
+  sitemapHeaders.set('accept', 'application/xml, text/xml;q=0.9');
+  const paths: string[] = [];
+  const queue = [options.sitemap ?? DEFAULT_SITEMAP_PATH];
+
+  for (let index = 0; index < queue.length && index < MAX_SITEMAPS; index++) {
+    const url = buildAbsoluteUrl(queue[index], request, options.trustedProxies);
+    if (!validateInternalRequest(url, request, options).isValid) {
+      continue;
+    }
+
+    let xml: string;
+    try {
+      const fetched = await fetchPageWithRedirects(
+        url,
+        toUpstreamUrl(url, origin),
+        sitemapHeaders,
+        request,
+        options,
+        origin
+      );
+      if ('redirect' in fetched) {
+        continue;
+      }
+      if (!fetched.response.ok) {
+        await discardBody(fetched.response);
+        continue;
+      }
+      xml = await readBody(fetched.response, options.maxRequestSize);
+    } catch (error) {
+      // 拒否・サイズ超過のsitemapは読み飛ばす（タイムアウトはエラーとして返す）
+      if (error instanceof MarkdownError && !(error instanceof Timeout)) {
+        continue;
+      }
+      throw error;
+    }
+
+    const { pages, sitemaps } = parseSitemap(xml);
+    queue.push(...sitemaps);
+    for (const loc of pages) {
+      const pageUrl = buildAbsoluteUrl(loc, request, options.trustedProxies);
+      if (validateInternalRequest(pageUrl, request, options).isValid) {
+        paths.push(`${pageUrl.pathname}${pageUrl.search}`);
+      }
+      if (paths.length >= maxPages) {
+        return paths;
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * 掲載するページの一覧を解決
+ *
+ * @internal
+ */
+async function resolvePages(
+  request: NextRequest,
+  headers: Headers,
+  options: LlmsTxtOptions,
+  origin?: string
+): Promise<LlmsTxtPage[]> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const pages =
+    typeof options.pages === 'function'
+      ? await options.pages(request)
+      : (options.pages ?? (await collectSitemapPages(request, headers, options, maxPages, origin)));
+
+  return pages.map((page) => (typeof page === 'string' ? { path: page } : page)).slice(0, maxPages);
+}
+
+/**
+ * ページを取得し、タイトル・説明（と必要に応じてMarkdown）を読み込む
+ * 取得に失敗したページや外部URLはnullを返して一覧から除外する
+ *
+ * @internal
+ */
+async function loadPage(
+  page: LlmsTxtPage,
+  request: NextRequest,
+  headers: Headers,
+  options: LlmsTxtOptions,
+  full: boolean,
+  origin?: string,
+  timings: Omit<MarkdownTimings, 'total'> = {}
+): Promise<LoadedPage | null> {
+  const url = buildAbsoluteUrl(page.path, request, options.trustedProxies);
+  if (!validateInternalRequest(url, request, options).isValid) {
+    return null;
+  }
+
+  const loaded: LoadedPage = {
+    url,
+    markdownUrl: toMarkdownUrl(url, { ...options.mapping, basePath: request.nextUrl.basePath }),
+    title: page.title ?? url.pathname,
+    description: page.description,
+    section: page.section ?? DEFAULT_SECTION,
+  };
+
+  // タイトルと説明が指定されている場合、llms.txtではページを取得しない
+  if (!full && page.title && page.description) {
+    return loaded;
+  }
+
+  let fetched: Awaited<ReturnType<typeof fetchPageWithRedirects>>;
+  let html: string;
+  const fetchStartedAt = performance.now();
+  try {
+    fetched = await fetchPageWithRedirects(
+      url,
+      toUpstreamUrl(url, origin),
+      headers,
+      request,
+      options,
+      origin
+    );
+    if ('redirect' in fetched) {
+      return null;
+    }
+    html = await guardResponse(fetched.response, options.maxRequestSize);
+  } catch (error) {
+    // 取得できないページは一覧から除外する（タイムアウトはsitemapと同様にエラーとして返す）
+    if (error instanceof MarkdownError && !(error instanceof Timeout)) {
+      return null;
+    }
+    throw error;
+  }
+  const fetchDuration = performance.now() - fetchStartedAt;
+  timings.fetch = (timings.fetch ?? 0) + fetchDuration;
+  emit(options.onFetched, () => ({
+    request,
+    url: url.toString(),
+    status: fetched.response.status,
+    bytes: byteLength(html),
+    duration: fetchDuration,
+  }));
+
+  const metadata = extractPageMetadata(parseHtml(html, options.parser), url.toString());
+  if (!page.title && typeof metadata.title === 'string') {
+    loaded.title = metadata.title;
+  }
+  if (!page.description && typeof metadata.description === 'string') {
+    loaded.description = metadata.description;
+  }
+
+  if (full) {
+    const convertStartedAt = performance.now();
+    const markdown = convertHtmlToMarkdown(html, fetched.url.toString(), options.turndown, {
+      parser: options.parser,
+      content: options.content,
+      selectors: resolveSelectorRules(url.pathname, options.selectors),
+      frontMatter: bindFrontMatterRequest(options.frontMatter, request),
+    });
+    const convertDuration = performance.now() - convertStartedAt;
+    timings.convert = (timings.convert ?? 0) + convertDuration;
+    emit(options.onConverted, () => ({
+      request,
+      url: url.toString(),
+      inputBytes: byteLength(html),
+      bytes: byteLength(markdown),
+      duration: convertDuration,
+    }));
+    loaded.markdown = markdown;
+  }
+  return loaded;
+}
+
+/**
+ * llms.txt / llms-full.txt の見出し部分を作成
+ *
+ * @param options - llms.txtオプション
+ * @param defaultTitle - タイトルが指定されていない場合の見出し
+ * @internal
+ */
+export function formatHeader(
+  options: Pick<LlmsTxtOptions, 'title' | 'description'>,
+  defaultTitle: string
+): string[] {
+  const title = options.title ?? defaultTitle;
+  const lines = [`# ${title}`];
+  if (options.description) {
+    lines.push('', `> ${options.description.replace(/\s*\n\s*/g, ' ')}`);
+  }
+  return lines;
+}
+
+/**
+ * llms.txt（ページ一覧）を作成
+ *
+ * @internal
+ */
+export function formatIndex(pages: LoadedPage[], header: string[]): string {
+  const sections = new Map<string, string[]>();
+  for (const page of pages) {
+    const items = sections.get(page.section) ?? [];
+    const description = page.description ? `: ${page.description}` : '';
+    const title = page.title.replace(/([[\]])/g, '\\$1');
+    items.push(`- [${title}](${page.markdownUrl})${description}`);
+    sections.set(page.section, items);
+  }
+
+  const lines = [...header];
+  for (const [section, items] of sections) {
+    lines.push('', `## ${section}`, '', ...items);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * llms-full.txt（全文）を作成
+ * 最大サイズを超えた時点で以降のページを省略する
+ *
+ * @param pages - 読み込んだページ
+ * @param header - 見出し部分
+ * @param maxBytes - 最大サイズ（バイト単位）
+ * @param unloaded - 最大サイズに達したため読み込まなかったページ数
+ * @internal
+ */
+export function formatFull(
+  pages: LoadedPage[],
+  header: string[],
+  maxBytes: number,
+  unloaded = 0
+): string {
+  const encoder = new TextEncoder();
+  let output = `${header.join('\n')}\n`;
+  let size = encoder.encode(output).length;
+  let omitted = unloaded;
+
+  for (const [index, page] of pages.entries()) {
+    const section = `\n---\n\nSource: ${page.url.toString()}\n\n${page.markdown ?? ''}\n`;
+    const sectionSize = encoder.encode(section).length;
+    if (size + sectionSize > maxBytes) {
+      omitted += pages.length - index;
+      break;
+    }
+    output += section;
+    size += sectionSize;
+  }
+  if (omitted > 0) {
+    output += `\n---\n\n<!-- ${omitted} pages omitted: size limit reached -->\n`;
+  }
+  return output;
+}
+
+/**
+ * ページ一覧または全文を同時に生成するリクエストをまとめるかを判定
+ * `pages`に関数を指定した場合は一覧がリクエストに依存するためまとめない
+ *
+ * @internal
+ */
+function shouldCoalesceLlms(options: LlmsTxtOptions): boolean {
+  return shouldCoalesce(options) && typeof options.pages !== 'function';
+}
+
+/**
+ * 検証からllms.txt / llms-full.txtのレスポンスの作成までを実行
+ *
+ * @internal
+ */
+async function executeLlmsTxt(
+  request: NextRequest,
+  options: LlmsTxtOptions,
+  state: PipelineState
+): Promise<Response> {
+  const full = request.nextUrl.pathname.endsWith('/llms-full.txt');
+  const url = buildAbsoluteUrl(request.nextUrl.pathname, request, options.trustedProxies);
+  state.url = url.toString();
+  emit(options.onRequest, () => ({ request, url: url.toString() }));
+  assertInternalTarget(url, request, options);
+
+  // クライアントごとのトークンバケットで生成の頻度を制限
+  const rateLimit = await consumeRateLimit(request, options);
+  if (rateLimit && !rateLimit.allowed) {
+    throw tooManyRequests(rateLimit.retryAfter, 'rate-limited');
+  }
+
+  // 内部fetchが再びMarkdownに変換されないよう、常にHTMLを要求する
+  const headers = extractSafeHeaders(request, options.headers?.forward);
+  headers.set('accept', 'text/html');
+  const authVary = await applyAuthHeaders(headers, request, options.auth);
+  state.authenticated = Boolean(authVary);
+
+  const origin = resolveOrigin(request, options.origin);
+  const { result, cacheStatus } = await loadEntry(
+    url.toString(),
+    headers,
+    authVary ? withoutCacheStore(options) : options,
+    () => {
+      // キャッシュにない場合のみ、同時に実行する生成の数を制限する
+      const load = async (): Promise<CacheEntry> => {
+        const entry = await withConcurrencyLimit(options.concurrency, async () => {
+          const pages = await resolvePages(request, headers, options, origin);
+          const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+          const loaded: LoadedPage[] = [];
+          let bytes = 0;
+          let unloaded = 0;
+          for (const [index, page] of pages.entries()) {
+            // llms-full.txtは最大サイズに達した時点で以降のページを取得・変換しない
+            if (full && bytes >= maxBytes) {
+              unloaded = pages.length - index;
+              break;
+            }
+            const item = await loadPage(
+              page,
+              request,
+              headers,
+              options,
+              full,
+              origin,
+              state.timings
+            );
+            if (item) {
+              loaded.push(item);
+              bytes += byteLength(item.markdown ?? '');
+            }
+          }
+
+          const header = formatHeader(options, request.headers.get('host') ?? 'Site');
+          const text = full
+            ? formatFull(loaded, header, maxBytes, unloaded)
+            : formatIndex(loaded, header);
+          return { markdown: text, createdAt: Date.now(), etag: await createETag(text) };
+        });
+        if (!entry) {
+          throw tooManyRequests(1, 'overloaded');
+        }
+        return entry;
+      };
+      // 同時のリクエストは1回の生成を共有する
+      return shouldCoalesceLlms(options)
+        ? loadOnce(options, createFlightKey(url, headers, { path: url.pathname }, options), load)
+        : load();
+    }
+  );
+  state.cacheStatus = cacheStatus;
+  if (result instanceof Response) {
+    return authVary ? markPrivate(result) : result;
+  }
+
+  return respond(request, result, cacheStatus, options, {
+    contentType: 'text/plain; charset=utf-8',
+    authVary,
+    url: state.url,
+    state,
+  });
+}
+
+/**
+ * /llms.txt と /llms-full.txt を返すRoute Handlerを作成
+ * パス名が`/llms-full.txt`で終わる場合は全文、それ以外はページ一覧を返す
+ * レート制限・同時実行数の制限・集約・ライフサイクルフックはMarkdown変換パイプラインと共通となる
+ *
+ * @example
+ * ```typescript
+ * // app/llms.txt/route.ts と app/llms-full.txt/route.ts
+ * import { createLlmsTxtHandler } from 'next-markdown-middleware';
+ *
+ * export const GET = createLlmsTxtHandler({
+ *   title: 'Example Docs',
+ *   description: 'Documentation for Example.',
+ *   pages: ['/', '/docs/getting-started', { path: '/blog', section: 'Blog' }],
+ * });
+ * ```
+ *
+ * @param options - llms.txtオプション
+ * @returns Route Handler関数
+ */
+export function createLlmsTxtHandler(options: LlmsTxtOptions = {}) {
+  const llmsOptions: LlmsTxtOptions = {
+    ...options,
+    // Route Handlerと同様にキャッシュヘッダーをデフォルトで付与する
+    cache: { enabled: true, ...options.cache },
+  };
+
+  return async function handler(request: NextRequest): Promise<Response> {
+    const startedAt = performance.now();
+    const state: PipelineState = { timings: {} };
+    let response: Response;
+    try {
+      response = await executeLlmsTxt(request, llmsOptions, state);
+    } catch (error) {
+      state.reason = error instanceof MarkdownError ? error.reason : 'error';
+      response = await handleError(error, request, llmsOptions);
+      if (state.authenticated) {
+        markPrivate(response);
+      }
+    }
+    return observeResponse(request, response, llmsOptions, state, startedAt);
+  };
+}
@@ -1,19 +1,28 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { type NextRequest, NextResponse } from 'next/server';
 import type { MarkdownMiddlewareOptions } from './types';
 import {
-  validateInternalRequest,
-  extractSafeHeaders,
   shouldExcludePath,
-  getOriginalPath,
-  buildAbsoluteUrl,
+  resolveMarkdownPath,
+  prefersMarkdown,
+  resolveRequestLocale,
+  splitLocale,
+  stripBasePath,
 } from './utils';
-import { convertHtmlToMarkdown } from './converter';
+import { runMarkdownPipeline } from './pipeline';
 
-/** デフォルトの最大リクエストサイズ（10MB） */
-const DEFAULT_MAX_REQUEST_SIZE = 10 * 1024 * 1024;
-
-/** デフォルトのfetchタイムアウト（30秒） */
-const DEFAULT_FETCH_TIMEOUT = 30000;
+/**
+ * コンテンツネゴシエーションの対象となるリクエストかどうかを判定
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @returns GET/HEADリクエストでMarkdownを優先している場合はtrue
+ * @internal
+ */
+function isNegotiatedRequest(request: NextRequest): boolean {
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return false;
+  }
+  return prefersMarkdown(request.headers.get('accept'));
+}
 
 /**
  * Markdownリクエストを処理
@@ -27,9 +36,18 @@ export async function handleMarkdownRequest(
   options?: MarkdownMiddlewareOptions,
 ): Promise<Response | null> {
   const { pathname } = request.nextUrl;
-
-  // .md拡張子が付いていない場合は処理しない
-  if (!pathname.endsWith('.md')) {
+  const basePath = options?.mapping?.basePath ?? request.nextUrl.basePath;
+
+  // MarkdownのURLでない場合は、ネゴシエーションでMarkdownが要求された場合のみ処理する
+  const mappedPath = resolveMarkdownPath(request.nextUrl, {
+    ...options?.mapping,
+    basePath,
+  });
+  const negotiated =
+    mappedPath === null &&
+    options?.negotiate === true &&
+    isNegotiatedRequest(request);
+  if (mappedPath === null && !negotiated) {
     return null;
   }
 
@@ -38,150 +56,18 @@ export async function handleMarkdownRequest(
     return null;
   }
 
-  try {
-    // 元のパスを取得
-    const originalPath = getOriginalPath(pathname);
-    const originalUrl = buildAbsoluteUrl(originalPath, request);
-
-    // 内部リクエストの検証（SSRF対策）
-    const validation = validateInternalRequest(originalUrl, request);
-    if (!validation.isValid) {
-      return new NextResponse(
-        JSON.stringify({ error: validation.error }),
-        {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
-
-    // 安全なヘッダーを抽出
-    const headers = extractSafeHeaders(
-      request,
-      options?.headers?.forward,
-    );
-
-    // fetchタイムアウトの設定
-    const fetchTimeout = options?.fetchTimeout || DEFAULT_FETCH_TIMEOUT;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), fetchTimeout);
-
-    try {
-      // HTMLをfetch
-      const response = await fetch(originalUrl.toString(), {
-        headers,
-        method: 'GET',
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      // 404エラーの処理
-      if (response.status === 404) {
-        return new NextResponse('Not Found', { status: 404 });
-      }
-
-      // その他のエラーステータス
-      if (!response.ok) {
-        return new NextResponse(
-          `Failed to fetch: ${response.statusText}`,
-          { status: response.status },
-        );
-      }
-
-      // Content-Typeがtext/htmlまたはapplication/xhtml+xmlであることを確認
-      const contentType = response.headers.get('content-type');
-      if (
-        !contentType ||
-        (!contentType.includes('text/html') &&
-          !contentType.includes('application/xhtml+xml'))
-      ) {
-        return new NextResponse(
-          'Content-Type must be text/html or application/xhtml+xml',
-          { status: 415 },
-        );
-      }
-
-      // レスポンスサイズのチェック
-      const contentLength = response.headers.get('content-length');
-      const maxSize = options?.maxRequestSize || DEFAULT_MAX_REQUEST_SIZE;
-      if (contentLength) {
-        const size = parseInt(contentLength, 10);
-        if (!isNaN(size) && size > maxSize) {
-          return new NextResponse('Request Entity Too Large', { status: 413 });
-        }
-      }
-
-      // HTMLを取得
-      const html = await response.text();
-
-      // 実際のサイズをチェック（Content-Lengthヘッダーがない場合）
-      if (html.length > maxSize) {
-        return new NextResponse('Request Entity Too Large', { status: 413 });
-      }
-
-      // HTMLをMarkdownに変換
-      const markdown = convertHtmlToMarkdown(
-        html,
-        originalUrl.toString(),
-        options?.turndown,
-      );
-
-      // レスポンスヘッダーを設定
-      const responseHeaders = new Headers();
-      responseHeaders.set('Content-Type', 'text/markdown; charset=utf-8');
-
-      // キャッシュヘッダーの設定
-      if (options?.cache?.enabled) {
-        const maxAge = options.cache.maxAge || 3600;
-        responseHeaders.set(
-          'Cache-Control',
-          `public, max-age=${maxAge}, s-maxage=${maxAge}`,
-        );
-      } else {
-        responseHeaders.set('Cache-Control', 'no-cache, no-store, must-revalidate');
-      }
-
-      // カスタムヘッダーの追加
-      if (options?.headers?.custom) {
-        for (const [key, value] of Object.entries(options.headers.custom)) {
-          responseHeaders.set(key, value);
-        }
-      }
-
-      return new NextResponse(markdown, {
-        status: 200,
-        headers: responseHeaders,
-      });
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-        return new NextResponse('Request Timeout', { status: 504 });
-      }
-      throw fetchError;
-    }
-  } catch (error) {
-    // カスタムエラーハンドラーがある場合は使用
-    if (options?.onError && error instanceof Error) {
-      const customResponse = options.onError(error, request);
-      if (customResponse) {
-        return customResponse;
-      }
-    }
-
-    // デフォルトのエラーハンドリング
-    if (error instanceof Error) {
-      return new NextResponse(
-        JSON.stringify({ error: error.message }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
-    }
-
-    return new NextResponse('Internal Server Error', { status: 500 });
-  }
+  // 元のパスを取得（ネゴシエーションの場合は同じパス）
+  // basePathとロケールはパイプラインで付与する
+  const { locale, detected } = resolveRequestLocale(request, options?.locale);
+  const { path } = splitLocale(
+    mappedPath ?? stripBasePath(pathname, basePath),
+    options?.locale?.locales,
+  );
+  return runMarkdownPipeline(
+    request,
+    { path, negotiated, basePath, locale, localeDetected: detected },
+    options,
+  );
 }
 
 /**
@@ -204,7 +90,16 @@ export function createMarkdownMiddleware(
 ) {
   return async (request: NextRequest): Promise<Response | NextResponse> => {
     const result = await handleMarkdownRequest(request, options);
-    return result || NextResponse.next();
+    if (result) {
+      return result;
+    }
+
+    const response = NextResponse.next();
+    // ネゴシエーション有効時はHTML側のレスポンスにもVary: Acceptを付与する
+    if (options?.negotiate) {
+      response.headers.append('Vary', 'Accept');
+    }
+    return response;
   };
 }
 
@@ -0,0 +1,139 @@
+/**
+ * 変換のライフサイクルフック・Server-Timing・トレーシング
+ *
+ * @packageDocumentation
+ */
+
+import type { NextRequest } from 'next/server';
+import type { MarkdownLifecycleHooks, MarkdownTimings, TracingSpan, TracingTracer } from './types';
+
+/** OpenTelemetryの`SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+/** デフォルトのスパン名 */
+const DEFAULT_SPAN_NAME = 'markdown.convert';
+
+/**
+ * 文字列のUTF-8でのバイト数を計算
+ *
+ * @internal
+ */
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * フックを呼び出す
+ * イベントはフックが指定された場合のみ作成し、フックの完了は待たない
+ * フックのエラー（同期・非同期）はログに出力してレスポンスには影響させない
+ *
+ * @param hook - 呼び出すフック
+ * @param createEvent - イベントを作成する関数
+ * @internal
+ */
+export function emit<T>(
+  hook: ((event: T) => void | Promise<void>) | undefined,
+  createEvent: () => T
+): void {
+  if (!hook) {
+    return;
+  }
+  try {
+    Promise.resolve(hook(createEvent())).catch((error) => {
+      console.error('Markdown hook error:', error);
+    });
+  } catch (error) {
+    console.error('Markdown hook error:', error);
+  }
+}
+
+/**
+ * Server-Timingヘッダーの値を作成
+ *
+ * @example
+ * ```typescript
+ * formatServerTiming({ fetch: 12.34, convert: 4.5, total: 20.1 });
+ * // 'fetch;dur=12.3, convert;dur=4.5, total;dur=20.1'
+ * ```
+ *
+ * @param timings - 処理段階ごとの所要時間（ミリ秒）
+ * @returns Server-Timingヘッダーの値
+ * @internal
+ */
+export function formatServerTiming(timings: MarkdownTimings): string {
+  const metrics: string[] = [];
+  for (const name of ['fetch', 'convert', 'total'] as const) {
+    const duration = timings[name];
+    if (duration !== undefined) {
+      metrics.push(`${name};dur=${Math.round(duration * 10) / 10}`);
+    }
+  }
+  return metrics.join(', ');
+}
+
+/**
+ * OpenTelemetry互換のトレーサーでスパンを記録するライフサイクルフックを作成
+ * リクエストごとに1つのスパンを開始し、取得・変換の所要時間とバイト数、ステータスコード、
+ * キャッシュの参照結果を属性として記録する（拒否・失敗した場合はスパンのステータスをエラーにする）
+ * 同時のリクエストと変換を共有した場合、取得・変換の属性は実際に取得したリクエストのスパンにのみ記録する
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * export const middleware = createMarkdownMiddleware({
+ *   ...createTracingHooks(trace.getTracer('next-markdown-middleware')),
+ * });
+ * ```
+ *
+ * @param tracer - OpenTelemetryの`Tracer`と互換のトレーサー
+ * @param options - スパン名（デフォルト: 'markdown.convert'）
+ * @returns ライフサイクルフック
+ */
+export function createTracingHooks(
+  tracer: TracingTracer,
+  options: { spanName?: string } = {}
+): MarkdownLifecycleHooks {
+  const spans = new WeakMap<NextRequest, TracingSpan>();
+
+  return {
+    onRequest({ request, url }) {
+      spans.set(
+        request,
+        tracer.startSpan(options.spanName ?? DEFAULT_SPAN_NAME, {
+          attributes: { 'url.full': url },
+        })
+      );
+    },
+    onFetched({ request, status, bytes, duration }) {
+      const span = spans.get(request);
+      span?.setAttribute('markdown.upstream.status_code', status);
+      span?.setAttribute('markdown.fetch.bytes', bytes);
+      span?.setAttribute('markdown.fetch.duration_ms', duration);
+    },
+    onConverted({ request, inputBytes, bytes, duration }) {
+      const span = spans.get(request);
+      span?.setAttribute('markdown.convert.input_bytes', inputBytes);
+      span?.setAttribute('markdown.convert.output_bytes', bytes);
+      span?.setAttribute('markdown.convert.duration_ms', duration);
+    },
+    onRejected({ request, reason }) {
+      const span = spans.get(request);
+      span?.setAttribute('markdown.rejection_reason', reason);
+      span?.setStatus({ code: SPAN_STATUS_ERROR, message: reason });
+    },
+    onResponse({ request, status, bytes, cacheStatus }) {
+      const span = spans.get(request);
+      if (!span) {
+        return;
+      }
+      span.setAttribute('http.response.status_code', status);
+      span.setAttribute('markdown.response.bytes', bytes);
+      if (cacheStatus) {
+        span.setAttribute('markdown.cache_status', cacheStatus);
+      }
+      span.end();
+      spans.delete(request);
+    },
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Next.js Pages Router用のAPI Routeヘルパー
+ *
+ * @packageDocumentation
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest } from 'next/server';
+import type { MarkdownRewriteOptions } from './app-router';
+import { MarkdownError } from './errors';
+import { handleError, runMarkdownPipeline } from './pipeline';
+import type { MarkdownPipelineOptions } from './types';
+import { splitLocale } from './utils';
+
+/**
+ * ネゴシエーションによるリライトであることをAPI Routeに伝えるクエリパラメータ名
+ *
+ * @internal
+ */
+const NEGOTIATED_QUERY = '__markdown_negotiated';
+
+/**
+ * Markdownを先頭に列挙したAcceptヘッダーに一致する正規表現
+ * `next.config.js`の`has`では品質値を比較できないため、先頭に列挙された場合のみ一致させる
+ * （`text/markdown;q=0`は受け付けないことを示すため、否定先読みで除外する）
+ *
+ * @internal
+ */
+const MARKDOWN_ACCEPT_PATTERN =
+  'text/markdown(?![^,]*;\\s*q\\s*=\\s*0(?:\\.0*)?\\s*(?:[;,]|$))(?:\\s*[;,].*)?';
+
+/**
+ * Pages Router API Route用のオプション
+ * Route Handlerと同じパイプラインオプションを使用する（`cache.enabled`のデフォルトはtrue）
+ */
+export interface MarkdownApiRouteOptions extends MarkdownPipelineOptions {
+  /**
+   * パスを受け取る動的ルートのパラメータ名（デフォルト: 'path'）
+   * `pages/api/markdown/[[...path]].ts`の場合は'path'
+   */
+  paramName?: string;
+  /** Next.jsの`basePath`設定（API Routeのリクエストからは取得できないため、取得するページのURLに付与する） */
+  basePath?: string;
+}
+
+/**
+ * `next.config.js`の`rewrites()`に指定するリライトルール
+ */
+export interface MarkdownRewriteRule {
+  /** リライト元のパス */
+  source: string;
+  /** リライト先のパス */
+  destination: string;
+  /** リライトの条件 */
+  has?: { type: 'header' | 'query'; key: string; value?: string }[];
+}
+
+/**
+ * NextApiRequestからパイプライン用のNextRequestを作成
+ *
+ * @internal
+ */
+function toNextRequest(req: NextApiRequest): NextRequest {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        headers.append(name, item);
+      }
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const host = headers.get('host') || 'localhost';
+  return new NextRequest(new URL(req.url ?? '/', `http://${host}`), {
+    method: req.method,
+    headers,
+    // trustedProxiesの判定に使用する接続元のIPアドレス
+    ip: req.socket?.remoteAddress,
+  });
+}
+
+/**
+ * パイプラインのレスポンスをNextApiResponseに書き込む
+ *
+ * @internal
+ */
+async function sendResponse(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  response: Response
+): Promise<void> {
+  res.status(response.status);
+  response.headers.forEach((value, name) => {
+    res.setHeader(name, value);
+  });
+
+  if (req.method === 'HEAD' || response.status === 304) {
+    res.end();
+    return;
+  }
+  res.end(await response.text());
+}
+
+/**
+ * Pages Router用のMarkdown変換API Routeを作成
+ * App RouterのRoute Handlerと同じパイプライン（検証・変換・キャッシュ）を使用する
+ *
+ * @example
+ * ```typescript
+ * // pages/api/markdown/[[...path]].ts
+ * import { createMarkdownApiRoute } from 'next-markdown-middleware';
+ *
+ * export default createMarkdownApiRoute({
+ *   cache: { maxAge: 3600 },
+ *   turndown: { headingStyle: 'atx' },
+ * });
+ * ```
+ *
+ * @param options - API Routeオプション
+ * @returns API Route関数
+ */
+export function createMarkdownApiRoute(options: MarkdownApiRouteOptions = {}) {
+  const { paramName = 'path', basePath, ...rest } = options;
+  const pipelineOptions: MarkdownPipelineOptions = {
+    ...rest,
+    // Route Handlerと同様にキャッシュヘッダーをデフォルトで付与する
+    cache: { enabled: true, ...options.cache },
+  };
+
+  return async function apiRoute(req: NextApiRequest, res: NextApiResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.setHeader('Allow', 'GET, HEAD');
+      const error = new MarkdownError(405, 'Method Not Allowed', { type: 'method-not-allowed' });
+      await sendResponse(req, res, await handleError(error, toNextRequest(req), pipelineOptions));
+      return;
+    }
+
+    const param = req.query[paramName];
+    const segments = Array.isArray(param) ? param : param ? [param] : [];
+    // パスの先頭にロケールが含まれる場合は分離してパイプラインに渡す
+    const { locale, path } = splitLocale(`/${segments.join('/')}`, options.locale?.locales);
+    const negotiated = req.query[NEGOTIATED_QUERY] === '1';
+
+    const response = await runMarkdownPipeline(
+      toNextRequest(req),
+      { path, negotiated, basePath, locale },
+      pipelineOptions
+    );
+    await sendResponse(req, res, response);
+  };
+}
+
+/**
+ * `next.config.js`の`rewrites()`用のリライトルールを作成
+ * `.md`付きのURLを`createMarkdownApiRoute`のAPI Routeにリライトする
+ * `mapping`を指定した場合は、拡張子・プレフィックス・クエリの設定に合わせたルールを作成する
+ * （`basePath`はNext.jsがリライトルールに付与するため指定不要）
+ *
+ * `negotiate`を有効にした場合、Acceptヘッダーの先頭に`text/markdown`を列挙したリクエストも
+ * 同じURLのままリライトする（`has`では品質値を比較できないため、Middlewareより判定が簡易になる）
+ *
+ * @example
+ * ```javascript
+ * // next.config.js
+ * const { createMarkdownRewrites } = require('next-markdown-middleware');
+ *
+ * module.exports = {
+ *   async rewrites() {
+ *     return createMarkdownRewrites('/api/markdown', { negotiate: true });
+ *   },
+ * };
+ * ```
+ *
+ * @param apiPath - API Routeのパス（デフォルト: '/api/markdown'）
+ * @param options - リライトオプション
+ * @returns リライトルールの配列
+ */
+export function createMarkdownRewrites(
+  apiPath = '/api/markdown',
+  options: MarkdownRewriteOptions = {}
+): MarkdownRewriteRule[] {
+  const { suffixes = ['.md'], prefix, query } = options.mapping ?? {};
+  const destination = `${apiPath}/:path*`;
+  const rules: MarkdownRewriteRule[] = [];
+
+  for (const suffix of suffixes) {
+    // `/index.md`・`/docs/index.md`はインデックスページ（`/`・`/docs`）に対応させる
+    rules.push(
+      { source: `/:path*/index${suffix}`, destination },
+      { source: `/:path*${suffix}`, destination }
+    );
+  }
+  if (prefix) {
+    rules.push({ source: `${prefix.replace(/\/+$/, '')}/:path*`, destination });
+  }
+  if (query) {
+    const [key, value] = query.split('=');
+    rules.push({ source: '/:path*', has: [{ type: 'query', key, value }], destination });
+  }
+
+  if (options.negotiate) {
+    rules.push({
+      source: '/:path*',
+      has: [{ type: 'header', key: 'accept', value: MARKDOWN_ACCEPT_PATTERN }],
+      destination: `${apiPath}/:path*?${NEGOTIATED_QUERY}=1`,
+    });
+  }
+  return rules;
+}
@@ -0,0 +1,50 @@
+/**
+ * HTMLパーサー
+ * デフォルトではWeb API以外に依存しない純粋なJavaScript実装（domino）を使用し、Edge Runtimeでも動作する
+ *
+ * @packageDocumentation
+ */
+
+import { createDocument } from '@mixmark-io/domino';
+import type { HtmlParser } from './types';
+
+/**
+ * dominoでHTMLを解析
+ * TurndownがNode.jsで文字列を受け取った場合と同じパーサーのため、変換結果は変わらない
+ *
+ * @internal
+ */
+const dominoParser: HtmlParser = (html) => createDocument(html);
+
+/**
+ * HTMLをドキュメントに解析
+ *
+ * @param html - 解析するHTML
+ * @param parser - パーサー（'domino'、またはHTMLからDocumentを返す関数、デフォルト: 'domino'）
+ * @returns 解析済みのドキュメント
+ * @example
+ * ```typescript
+ * const document = parseHtml('<html><body><h1>Title</h1></body></html>');
+ *
+ * // jsdomを使用する場合（Node.jsのみ）
+ * const document = parseHtml(html, (source) => new JSDOM(source).window.document);
+ * ```
+ */
+export function parseHtml(html: string, parser: 'domino' | HtmlParser = 'domino'): Document {
+  return parser === 'domino' ? dominoParser(html) : parser(html);
+}
+
+/**
+ * HTMLを解析し、Turndownに渡すルート要素を取得
+ * Turndownが文字列を受け取った場合と同様に<x-turndown>要素で包んで解析する
+ * （ブラウザ向けビルドのTurndownはDOMParserを必要とするため、Edge Runtimeでは文字列を渡せない）
+ *
+ * @param html - 解析するHTML
+ * @param parser - パーサー
+ * @returns ルート要素
+ * @internal
+ */
+export function parseTurndownRoot(html: string, parser?: 'domino' | HtmlParser): HTMLElement {
+  const document = parseHtml(`<x-turndown id="turndown-root">${html}</x-turndown>`, parser);
+  return document.getElementById('turndown-root') ?? document.body;
+}
@@ -0,0 +1,944 @@
+/**
+ * MiddlewareとRoute Handlerで共有するMarkdown変換パイプライン
+ * resolve → validate → fetch → guard → convert → respond の順に処理する
+ *
+ * @packageDocumentation
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { type CacheStatus, createCacheKey, loadOnce, loadWithCache } from './cache';
+import { applyValidators, createETag } from './conditional';
+import { convertHtmlToMarkdown } from './converter';
+import {
+  MarkdownError,
+  PayloadTooLarge,
+  SsrfRejected,
+  Timeout,
+  UnsupportedContentType,
+  UpstreamNotFound,
+  renderError,
+} from './errors';
+import { bindFrontMatterRequest } from './front-matter';
+import { byteLength, emit, formatServerTiming } from './observability';
+import { consumeRateLimit, withConcurrencyLimit } from './rate-limit';
+import type {
+  AuthOptions,
+  CacheEntry,
+  MarkdownPipelineOptions,
+  MarkdownRejectionReason,
+  MarkdownTimings,
+  RequestPolicy,
+} from './types';
+import {
+  addBasePath,
+  addLocale,
+  applyAuthHeaders,
+  buildAbsoluteUrl,
+  extractSafeHeaders,
+  getAuthVaryHeaders,
+  resolveOrigin,
+  resolveSelectorRules,
+  toMarkdownUrl,
+  toUpstreamUrl,
+  validateInternalRequest,
+} from './utils';
+
+/** デフォルトの最大リクエストサイズ（10MB） */
+const DEFAULT_MAX_REQUEST_SIZE = 10 * 1024 * 1024;
+
+/** デフォルトのfetchタイムアウト（30秒） */
+const DEFAULT_FETCH_TIMEOUT = 30000;
+
+/** デフォルトの最大リダイレクト回数 */
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/** リダイレクトを示すステータスコード */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** 恒久的なリダイレクトを示すステータスコード */
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308]);
+
+/** デフォルトのキャッシュ有効期限（1時間） */
+const DEFAULT_CACHE_MAX_AGE = 3600;
+
+/** サーバー側キャッシュをデフォルトで分けるヘッダー */
+const DEFAULT_CACHE_VARY_HEADERS = ['accept-language'];
+
+/**
+ * オプションを省略した場合に使用するオプション
+ * 集約・キャッシュはオプションオブジェクトごとに共有するため、呼び出しごとに作成せず同じオブジェクトを使用する
+ */
+const DEFAULT_OPTIONS: MarkdownPipelineOptions = Object.freeze({});
+
+/**
+ * パイプラインに渡す変換対象の情報
+ */
+export interface MarkdownPipelineTarget {
+  /** 変換対象ページのパス名（`.md`拡張子・`basePath`・ロケールを除いたもの） */
+  path: string;
+  /** コンテンツネゴシエーションによるリクエストか（trueの場合は`Vary: Accept`を付与） */
+  negotiated?: boolean;
+  /** 取得するページの`basePath`（デフォルト: `request.nextUrl.basePath`） */
+  basePath?: string;
+  /** 取得するページのロケール（指定した場合はパスの先頭に付与し、`Content-Language`を返す） */
+  locale?: string;
+  /** Accept-Languageからロケールを選択したか（trueの場合は`Vary: Accept-Language`を付与） */
+  localeDetected?: boolean;
+}
+
+/**
+ * レート制限・同時実行数の上限を超えたリクエストのエラーを作成
+ *
+ * @internal
+ */
+export function tooManyRequests(
+  retryAfter: number,
+  reason: 'rate-limited' | 'overloaded'
+): MarkdownError {
+  return new MarkdownError(429, 'Too Many Requests', {
+    type: reason,
+    detail:
+      reason === 'rate-limited'
+        ? 'The rate limit for this client was exceeded'
+        : 'Too many conversions are in progress',
+    reason,
+    headers: { 'Retry-After': String(retryAfter) },
+  });
+}
+
+/**
+ * 内部fetchに転送する認証情報のヘッダー名を取得
+ *
+ * @internal
+ */
+function credentialHeaderNames(auth: AuthOptions): string[] {
+  const names = ['cookie', 'authorization'];
+  if (auth.serviceToken) {
+    names.push(auth.serviceToken.header.toLowerCase());
+  }
+  return names;
+}
+
+/**
+ * 同時の変換をまとめるためのキーを作成
+ * サーバー側キャッシュと同じ単位（URL・`varyHeaders`・変換オプション）でまとめ、
+ * 認証情報を転送する場合は利用者の異なるリクエストをまとめないよう認証情報をそのまま比較する
+ *
+ * @internal
+ */
+export function createFlightKey(
+  url: URL,
+  headers: Headers,
+  target: MarkdownPipelineTarget,
+  options: MarkdownPipelineOptions
+): string {
+  const varyHeaders = options.cache?.varyHeaders ?? DEFAULT_CACHE_VARY_HEADERS;
+  const credentials = options.auth
+    ? credentialHeaderNames(options.auth).map((name) => headers.get(name) ?? '')
+    : [];
+  return JSON.stringify([
+    createCacheKey(url.toString(), headers, varyHeaders, options),
+    credentials,
+    Boolean(target.negotiated),
+  ]);
+}
+
+/**
+ * 変換結果がリクエストに依存するか（`frontMatter.transform`を指定した場合）を判定
+ *
+ * @internal
+ */
+function dependsOnRequest(options: MarkdownPipelineOptions): boolean {
+  return typeof options.frontMatter === 'object' && Boolean(options.frontMatter.transform);
+}
+
+/**
+ * 同時の変換をまとめるかを判定
+ * 変換結果がリクエストに依存する場合は、他のリクエストの結果を返さないようまとめない
+ *
+ * @internal
+ */
+export function shouldCoalesce(options: MarkdownPipelineOptions): boolean {
+  return options.coalesce !== false && !dependsOnRequest(options);
+}
+
+/**
+ * 変換対象のURLを検証（SSRF対策）
+ *
+ * @throws {SsrfRejected} 内部リクエストとして許可しない場合
+ * @internal
+ */
+export function assertInternalTarget(url: URL, request: NextRequest, policy: RequestPolicy): void {
+  const validation = validateInternalRequest(url, request, policy);
+  if (!validation.isValid) {
+    throw new SsrfRejected(validation.error, validation.reason);
+  }
+}
+
+/**
+ * 本文を読み終えるまで有効なタイムアウト
+ *
+ * @internal
+ */
+interface BodyTimeout {
+  /** タイムアウト（ミリ秒） */
+  limit: number;
+  /** タイムアウトした時点で中止されるシグナル */
+  signal: AbortSignal;
+  /** タイマーを解除する関数 */
+  clear: () => void;
+}
+
+/** 取得したレスポンスごとの、本文を読み終えるまでのタイムアウト */
+const bodyTimeouts = new WeakMap<Response, BodyTimeout>();
+
+/**
+ * タイムアウト付きで元のページを取得
+ * タイムアウトは本文を読み終える（`readBody`・`discardBody`）まで有効とし、
+ * ヘッダーの受信後に本文の送信が止まった場合もタイムアウトとする
+ *
+ * @param url - 取得するURL
+ * @param headers - 転送するヘッダー
+ * @param timeout - タイムアウト（ミリ秒、デフォルト: 30000）
+ * @returns 取得したレスポンス
+ * @throws {Timeout} タイムアウトした場合
+ * @internal
+ */
+export async function fetchPage(url: URL, headers: Headers, timeout?: number): Promise<Response> {
+  const limit = timeout || DEFAULT_FETCH_TIMEOUT;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), limit);
+
+  try {
+    // リダイレクト先を検証するため、自動では追跡しない
+    const response = await fetch(url.toString(), {
+      headers,
+      method: 'GET',
+      redirect: 'manual',
+      signal: controller.signal,
+    });
+    bodyTimeouts.set(response, {
+      limit,
+      signal: controller.signal,
+      clear: () => clearTimeout(timeoutId),
+    });
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Timeout(limit, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 読み込まないレスポンスの本文を破棄し、タイムアウトを解除する
+ *
+ * @internal
+ */
+export async function discardBody(response: Response): Promise<void> {
+  bodyTimeouts.get(response)?.clear();
+  await response.body?.cancel().catch(() => {});
+}
+
+/**
+ * タイムアウトまでにストリームから次のチャンクを読み込む
+ *
+ * @throws {Timeout} タイムアウトした場合
+ * @internal
+ */
+function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeout?: BodyTimeout
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  if (!timeout) {
+    return reader.read();
+  }
+  const { limit, signal } = timeout;
+  if (signal.aborted) {
+    return Promise.reject(new Timeout(limit));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new Timeout(limit));
+    signal.addEventListener('abort', onAbort, { once: true });
+    reader
+      .read()
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * オプションから内部リクエストの検証ポリシーを作成
+ *
+ * @internal
+ */
+export function createRequestPolicy(options: MarkdownPipelineOptions): RequestPolicy {
+  return { allowedHosts: options.allowedHosts, trustedProxies: options.trustedProxies };
+}
+
+/**
+ * リダイレクトを検証しながら元のページを取得
+ * リダイレクト先ごとにSSRF対策の検証を行い、最大回数を超えた場合は502を返す
+ * `follow`がfalseの場合は追跡せず、検証済みのリダイレクト先を返す
+ *
+ * @param url - 取得するページの公開URL
+ * @param upstreamUrl - 内部fetchの接続先URL
+ * @param headers - 転送するヘッダー
+ * @param request - Next.jsリクエストオブジェクト
+ * @param options - パイプラインオプション
+ * @param origin - 内部fetchの接続先オリジン
+ * @param follow - リダイレクトを追跡するか
+ * @returns 最終的なレスポンスとその公開URL、追跡しないリダイレクト、またはエラーレスポンス
+ * @internal
+ */
+export async function fetchPageWithRedirects(
+  url: URL,
+  upstreamUrl: URL,
+  headers: Headers,
+  request: NextRequest,
+  options: MarkdownPipelineOptions,
+  origin?: string,
+  follow = true
+): Promise<{ response: Response; url: URL } | { redirect: URL; status: number }> {
+  const maxRedirects = options.redirects?.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const policy = createRequestPolicy(options);
+  let current = url;
+  let upstream = upstreamUrl;
+  let hopHeaders = headers;
+
+  for (let hops = 0; ; hops++) {
+    const response = await fetchPage(upstream, hopHeaders, options.fetchTimeout);
+    const location = REDIRECT_STATUSES.has(response.status) && response.headers.get('location');
+    if (!location) {
+      return { response, url: current };
+    }
+    await discardBody(response);
+
+    // 接続先オリジンへのリダイレクトは公開URLに戻してから検証する
+    let next = new URL(location, upstream);
+    if (origin && next.origin === origin) {
+      next = new URL(`${next.pathname}${next.search}`, current);
+    }
+    assertInternalTarget(next, request, policy);
+    if (!follow) {
+      return { redirect: next, status: response.status };
+    }
+    if (hops >= maxRedirects) {
+      throw new MarkdownError(502, 'Bad Gateway', {
+        type: 'too-many-redirects',
+        detail: `Too Many Redirects: the page redirected more than ${maxRedirects} times`,
+        reason: 'upstream-error',
+      });
+    }
+
+    // 異なるオリジンへのリダイレクトでは認証情報を転送しない
+    if (next.origin !== current.origin && options.auth) {
+      hopHeaders = new Headers(hopHeaders);
+      for (const name of credentialHeaderNames(options.auth)) {
+        hopHeaders.delete(name);
+      }
+    }
+    current = next;
+    upstream = toUpstreamUrl(next, origin);
+  }
+}
+
+/**
+ * リダイレクト先に対応するMarkdownのURLへのリダイレクトレスポンスを作成
+ * MarkdownのURLは`mapping`の形式（拡張子・プレフィックス・クエリ）で作成する
+ * ネゴシエーションによるリクエストの場合は、Markdownを要求したままページのURLへリダイレクトする
+ *
+ * @internal
+ */
+function redirectResponse(
+  location: URL,
+  status: number,
+  negotiated: boolean | undefined,
+  basePath: string,
+  options: MarkdownPipelineOptions
+): Response {
+  const redirectStatus = PERMANENT_REDIRECT_STATUSES.has(status)
+    ? (options.redirects?.permanentStatus ?? 308)
+    : 307;
+  const response = NextResponse.redirect(
+    negotiated ? location.toString() : toMarkdownUrl(location, { ...options.mapping, basePath }),
+    redirectStatus
+  );
+  if (negotiated) {
+    response.headers.append('Vary', 'Accept');
+  }
+  return response;
+}
+
+/**
+ * サイズ制限を確認しながらレスポンスの本文を読み出す
+ * 本文はストリームとして読み込み、受信バイト数が上限を超えた時点で読み込みを中止して
+ * 上流の接続を切断する（Content-Lengthがないチャンク転送でも全体をバッファしない）
+ *
+ * @param response - 取得したレスポンス
+ * @param maxSize - 最大サイズ（バイト単位、デフォルト: 10MB）
+ * @returns 本文
+ * @throws {PayloadTooLarge} 最大サイズを超えた場合
+ * @throws {Timeout} 本文を読み終える前に`fetchTimeout`を超えた場合
+ * @internal
+ */
+export async function readBody(response: Response, maxSize?: number): Promise<string> {
+  const limit = maxSize || DEFAULT_MAX_REQUEST_SIZE;
+
+  // Content-Lengthヘッダーによるサイズチェック
+  const contentLength = response.headers.get('content-length');
+  if (contentLength) {
+    const size = Number.parseInt(contentLength, 10);
+    if (!Number.isNaN(size) && size > limit) {
+      await discardBody(response);
+      throw new PayloadTooLarge(limit);
+    }
+  }
+
+  const timeout = bodyTimeouts.get(response);
+  try {
+    // ストリームを持たないレスポンスは読み込んでからバイト数を確認
+    if (!response.body) {
+      const body = await response.text();
+      if (new TextEncoder().encode(body).length > limit) {
+        throw new PayloadTooLarge(limit);
+      }
+      return body;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let received = 0;
+    let body = '';
+    for (;;) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await readChunk(reader, timeout);
+      } catch (error) {
+        // 本文の送信が止まった場合は上流の接続を切断する
+        await reader.cancel().catch(() => {});
+        if (timeout && error instanceof Error && error.name === 'AbortError') {
+          throw new Timeout(timeout.limit, error);
+        }
+        throw error;
+      }
+      const { done, value } = chunk;
+      if (done) {
+        break;
+      }
+      received += value.byteLength;
+      if (received > limit) {
+        // 残りの本文を読まずに上流の接続を切断する
+        await reader.cancel().catch(() => {});
+        throw new PayloadTooLarge(limit);
+      }
+      body += decoder.decode(value, { stream: true });
+    }
+    return body + decoder.decode();
+  } finally {
+    timeout?.clear();
+  }
+}
+
+/**
+ * 取得したレスポンスのステータス・Content-Type・サイズを検証してHTMLを読み出す
+ *
+ * @param response - 取得したレスポンス
+ * @param maxSize - 最大サイズ（デフォルト: 10MB）
+ * @returns HTML
+ * @throws {MarkdownError} ページがエラーを返した場合（404以外は502）、HTMLでない場合、最大サイズを超えた場合
+ * @internal
+ */
+export async function guardResponse(response: Response, maxSize?: number): Promise<string> {
+  if (response.status === 404) {
+    await discardBody(response);
+    throw new UpstreamNotFound();
+  }
+  if (!response.ok) {
+    await discardBody(response);
+    // 元のページのステータス（304等の本文を持てないステータスを含む）はそのまま返さず502とする
+    throw new MarkdownError(502, 'Bad Gateway', {
+      type: 'upstream-error',
+      detail: `Failed to fetch: the page returned ${response.status}`,
+      reason: 'upstream-error',
+    });
+  }
+
+  // Content-Typeがtext/htmlまたはapplication/xhtml+xmlであることを確認
+  const contentType = response.headers.get('content-type');
+  if (
+    !contentType ||
+    (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml'))
+  ) {
+    await discardBody(response);
+    throw new UnsupportedContentType(contentType);
+  }
+
+  return readBody(response, maxSize);
+}
+
+/**
+ * 元のページを取得してMarkdownに変換
+ * 相対リンクはページ自身の公開URLを基準に解決する
+ * 取得・検証の失敗は`MarkdownError`としてthrowし、Responseはリダイレクトの場合のみ返す
+ *
+ * @internal
+ */
+async function loadMarkdown(
+  url: URL,
+  upstreamUrl: URL,
+  origin: string | undefined,
+  target: MarkdownPipelineTarget,
+  headers: Headers,
+  request: NextRequest,
+  options: MarkdownPipelineOptions,
+  timings: Omit<MarkdownTimings, 'total'> = {}
+): Promise<CacheEntry | Response> {
+  const fetchStartedAt = performance.now();
+  const fetched = await fetchPageWithRedirects(
+    url,
+    upstreamUrl,
+    headers,
+    request,
+    options,
+    origin,
+    options.redirects?.mode !== 'redirect'
+  );
+  if ('redirect' in fetched) {
+    return redirectResponse(
+      fetched.redirect,
+      fetched.status,
+      target.negotiated,
+      target.basePath ?? request.nextUrl.basePath,
+      options
+    );
+  }
+  const { response } = fetched;
+
+  const html = await guardResponse(response, options.maxRequestSize);
+  timings.fetch = performance.now() - fetchStartedAt;
+  emit(options.onFetched, () => ({
+    request,
+    url: url.toString(),
+    status: response.status,
+    bytes: byteLength(html),
+    duration: timings.fetch ?? 0,
+  }));
+
+  // ロケールの出力が有効な場合は、フロントマターが無効でもlangのみ出力する
+  const locale = options.locale?.frontMatter ? target.locale : undefined;
+  // リダイレクトを追跡した場合は、最終的なページのURLを基準に相対リンクを解決する
+  const convertStartedAt = performance.now();
+  const markdown = convertHtmlToMarkdown(html, fetched.url.toString(), options.turndown, {
+    parser: options.parser,
+    content: options.content,
+    selectors: resolveSelectorRules(target.path, options.selectors),
+    frontMatter: bindFrontMatterRequest(options.frontMatter || Boolean(locale), request, locale),
+  });
+  timings.convert = performance.now() - convertStartedAt;
+  emit(options.onConverted, () => ({
+    request,
+    url: url.toString(),
+    inputBytes: byteLength(html),
+    bytes: byteLength(markdown),
+    duration: timings.convert ?? 0,
+  }));
+
+  return {
+    markdown,
+    createdAt: Date.now(),
+    etag: await createETag(markdown),
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+}
+
+/**
+ * サーバー側キャッシュがあれば参照し、なければそのまま読み込む
+ * 変換結果がリクエストに依存する場合は、他のリクエストの結果を返さないようキャッシュを使用しない
+ *
+ * @param url - キャッシュキーに使用するURL
+ * @param headers - 内部fetchに転送するヘッダー
+ * @param options - パイプラインオプション
+ * @param load - 変換結果を読み込む関数（リダイレクト時はResponseを返し、エラー時はthrowする）
+ * @returns 読み込み結果とキャッシュの参照結果（キャッシュ未使用時はundefined）
+ * @internal
+ */
+export async function loadEntry(
+  url: string,
+  headers: Headers,
+  options: MarkdownPipelineOptions,
+  load: () => Promise<CacheEntry | Response>
+): Promise<{ result: CacheEntry | Response; cacheStatus?: CacheStatus }> {
+  const cache = options.cache ?? {};
+  if (!cache.store || dependsOnRequest(options)) {
+    return { result: await load() };
+  }
+
+  const key = createCacheKey(
+    url,
+    headers,
+    cache.varyHeaders ?? DEFAULT_CACHE_VARY_HEADERS,
+    options
+  );
+  const { result, status } = await loadWithCache(
+    cache.store,
+    key,
+    {
+      maxAge: cache.maxAge ?? DEFAULT_CACHE_MAX_AGE,
+      staleWhileRevalidate: cache.staleWhileRevalidate ?? 0,
+    },
+    load
+  );
+  return { result, cacheStatus: status };
+}
+
+/**
+ * サーバー側キャッシュのストアを除いたオプションを作成
+ * 利用者ごとに内容が異なる認証済みの変換結果を共有のストアに保存しないために使用する
+ *
+ * @internal
+ */
+export function withoutCacheStore(options: MarkdownPipelineOptions): MarkdownPipelineOptions {
+  return { ...options, cache: { ...options.cache, store: undefined } };
+}
+
+/**
+ * 認証情報を転送したエラー・リダイレクトレスポンスを共有キャッシュに保存させない
+ *
+ * @internal
+ */
+export function markPrivate(response: Response): Response {
+  response.headers.set('Cache-Control', 'private, no-store');
+  return response;
+}
+
+/**
+ * 変換結果からレスポンスを作成
+ * 条件付きリクエストに一致する場合は304を返す
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param entry - 変換結果
+ * @param cacheStatus - サーバー側キャッシュの参照結果
+ * @param options - パイプラインオプション
+ * @param init - Content-Type（デフォルト: text/markdown）、ネゴシエーションの有無とロケール、
+ *   `transformResponse`に渡すURLと書き換え後の本文を記録する状態
+ * @returns レスポンス
+ * @internal
+ */
+export async function respond(
+  request: NextRequest,
+  entry: CacheEntry,
+  cacheStatus: CacheStatus | undefined,
+  options: MarkdownPipelineOptions,
+  init: {
+    contentType?: string;
+    negotiated?: boolean;
+    locale?: string;
+    localeDetected?: boolean;
+    authVary?: string[];
+    url?: string;
+    state?: { markdown?: string };
+  } = {}
+): Promise<Response> {
+  const headers = new Headers();
+  headers.set('Content-Type', init.contentType ?? 'text/markdown; charset=utf-8');
+
+  // キャッシュヘッダーの設定
+  const cache = options.cache ?? {};
+  if (init.authVary) {
+    // 認証情報を転送したレスポンスは共有キャッシュ（CDN）に保存させない
+    headers.set(
+      'Cache-Control',
+      cache.enabled
+        ? `private, max-age=${cache.maxAge ?? DEFAULT_CACHE_MAX_AGE}`
+        : 'private, no-cache, no-store, must-revalidate'
+    );
+  } else if (cache.enabled) {
+    const maxAge = cache.maxAge ?? DEFAULT_CACHE_MAX_AGE;
+    const staleWhileRevalidate = cache.staleWhileRevalidate ?? 0;
+    let cacheControl = `public, max-age=${maxAge}, s-maxage=${cache.sMaxAge ?? maxAge}`;
+    if (staleWhileRevalidate > 0) {
+      cacheControl += `, stale-while-revalidate=${staleWhileRevalidate}`;
+    }
+    headers.set('Cache-Control', cacheControl);
+  } else {
+    headers.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+  }
+  if (cacheStatus) {
+    headers.set('X-Markdown-Cache', cacheStatus);
+  }
+  // 認証情報の転送を設定した場合は、匿名のレスポンスも認証情報のヘッダーでキャッシュを分離する
+  for (const name of getAuthVaryHeaders(options.auth)) {
+    headers.append('Vary', name);
+  }
+
+  // 同じURLでHTMLとMarkdownを返し分けるため、CDNにAcceptでのキャッシュ分離を指示
+  if (init.negotiated) {
+    headers.append('Vary', 'Accept');
+  }
+  // Accept-Languageでロケールを選択した場合も同様に分離する
+  if (init.localeDetected) {
+    headers.append('Vary', 'Accept-Language');
+  }
+  if (init.locale) {
+    headers.set('Content-Language', init.locale);
+  }
+
+  // カスタムヘッダーの追加
+  if (options.headers?.custom) {
+    for (const [key, value] of Object.entries(options.headers.custom)) {
+      headers.set(key, value);
+    }
+  }
+
+  // transform: キャッシュした変換結果をリクエストごとに書き換える（本文が変わった場合はETagを再計算）
+  let body = entry;
+  if (options.transformResponse) {
+    const markdown = await options.transformResponse(entry.markdown, {
+      request,
+      url: init.url ?? request.url,
+      headers,
+      cacheStatus,
+    });
+    if (markdown !== entry.markdown) {
+      body = { ...entry, markdown, etag: undefined };
+    }
+  }
+  if (init.state) {
+    init.state.markdown = body.markdown;
+  }
+
+  // 条件付きリクエストに一致する場合は本文なしで304を返す
+  if (await applyValidators(request, body, headers)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(body.markdown, { status: 200, headers });
+}
+
+/**
+ * 発生したエラーを`MarkdownError`に変換
+ * 予期しないエラーは内部のエラーメッセージを含めない500とし、元のエラーを`cause`に保持する
+ *
+ * @internal
+ */
+function toMarkdownError(error: unknown): MarkdownError {
+  if (error instanceof MarkdownError) {
+    return error;
+  }
+  return new MarkdownError(500, 'Internal Server Error', { type: 'internal-error', cause: error });
+}
+
+/**
+ * エラーをレスポンスに変換
+ * カスタムエラーハンドラーがレスポンスを返さない場合（またはthrowした場合）は、
+ * `errorFormat`に応じたエラーレスポンスを返す
+ *
+ * @param error - 発生したエラー
+ * @param request - Next.jsリクエストオブジェクト
+ * @param options - パイプラインオプション
+ * @returns エラーレスポンス
+ * @internal
+ */
+export async function handleError(
+  error: unknown,
+  request: NextRequest,
+  options: Pick<MarkdownPipelineOptions, 'onError' | 'errorFormat'>
+): Promise<Response> {
+  const markdownError = toMarkdownError(error);
+  if (options.onError) {
+    try {
+      const customResponse = await options.onError(markdownError, request);
+      if (customResponse) {
+        return customResponse;
+      }
+    } catch (handlerError) {
+      console.error('Markdown error handler error:', handlerError);
+    }
+  }
+
+  if (!(error instanceof MarkdownError)) {
+    console.error('Markdown conversion error:', error);
+  }
+  return renderError(markdownError, request, options);
+}
+
+/**
+ * パイプラインの実行中に記録する状態（ライフサイクルフックとServer-Timingに使用）
+ *
+ * @internal
+ */
+export interface PipelineState {
+  /** 変換対象のページの公開URL */
+  url?: string;
+  /** 処理段階ごとの所要時間 */
+  timings: Omit<MarkdownTimings, 'total'>;
+  /** サーバー側キャッシュの参照結果 */
+  cacheStatus?: CacheStatus;
+  /** 返したMarkdown */
+  markdown?: string;
+  /** 拒否・失敗した理由 */
+  reason?: MarkdownRejectionReason;
+  /** 認証情報を転送したか（エラーレスポンスも共有キャッシュに保存させない） */
+  authenticated?: boolean;
+}
+
+/**
+ * 検証から変換・レスポンスの作成までを実行
+ *
+ * @internal
+ */
+async function executePipeline(
+  request: NextRequest,
+  target: MarkdownPipelineTarget,
+  options: MarkdownPipelineOptions,
+  state: PipelineState
+): Promise<Response> {
+  // resolve: basePath・ロケールを付与し、x-forwarded-protoを検証して絶対URLを構築
+  const basePath = target.basePath ?? request.nextUrl.basePath;
+  const url = buildAbsoluteUrl(
+    addBasePath(addLocale(target.path, target.locale), basePath),
+    request,
+    options.trustedProxies
+  );
+  state.url = url.toString();
+  emit(options.onRequest, () => ({ request, url: url.toString() }));
+
+  // validate: 内部リクエストのみ許可（originを指定した場合は接続先も検証する）
+  const origin = resolveOrigin(request, options.origin);
+  const upstreamUrl = toUpstreamUrl(url, origin);
+  const policy = createRequestPolicy(options);
+  assertInternalTarget(url, request, policy);
+  assertInternalTarget(upstreamUrl, request, { ...policy, trustedOrigin: origin });
+
+  // limit: クライアントごとのトークンバケットで変換の頻度を制限
+  const rateLimit = await consumeRateLimit(request, options);
+  if (rateLimit && !rateLimit.allowed) {
+    throw tooManyRequests(rateLimit.retryAfter, 'rate-limited');
+  }
+
+  // 内部fetchが再びMarkdownに変換されないよう、常にHTMLを要求する
+  const headers = extractSafeHeaders(request, options.headers?.forward);
+  headers.set('accept', 'text/html');
+
+  // 明示的に許可した認証情報のみ付与する
+  const authVary = await applyAuthHeaders(headers, request, options.auth);
+  state.authenticated = Boolean(authVary);
+
+  // fetch → guard → convert（サーバー側キャッシュがあれば参照、認証情報を転送した場合は使用しない）
+  const { result, cacheStatus } = await loadEntry(
+    url.toString(),
+    headers,
+    authVary ? withoutCacheStore(options) : options,
+    () => {
+      // キャッシュにない場合のみ、同時に実行する変換の数を制限する
+      const load = async () => {
+        const loaded = await withConcurrencyLimit(options.concurrency, () =>
+          loadMarkdown(url, upstreamUrl, origin, target, headers, request, options, state.timings)
+        );
+        if (!loaded) {
+          throw tooManyRequests(1, 'overloaded');
+        }
+        return loaded;
+      };
+      // 同じページへの同時のリクエストは1回の取得・変換を共有する
+      return shouldCoalesce(options)
+        ? loadOnce(options, createFlightKey(url, headers, target, options), load)
+        : load();
+    }
+  );
+  state.cacheStatus = cacheStatus;
+  if (result instanceof Response) {
+    return authVary ? markPrivate(result) : result;
+  }
+
+  // respond
+  return respond(request, result, cacheStatus, options, {
+    negotiated: target.negotiated,
+    locale: target.locale,
+    localeDetected: target.localeDetected,
+    authVary,
+    url: state.url,
+    state,
+  });
+}
+
+/**
+ * 拒否・失敗の通知、Server-Timingの付与、レスポンスの通知を行う
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param response - 返すレスポンス
+ * @param options - パイプラインオプション
+ * @param state - パイプラインの実行中に記録した状態
+ * @param startedAt - 処理を開始した時刻（`performance.now()`）
+ * @returns 引数のレスポンス
+ * @internal
+ */
+export function observeResponse(
+  request: NextRequest,
+  response: Response,
+  options: MarkdownPipelineOptions,
+  state: PipelineState,
+  startedAt: number
+): Response {
+  const timings: MarkdownTimings = { ...state.timings, total: performance.now() - startedAt };
+  const url = state.url ?? request.url;
+  if (response.status >= 400) {
+    emit(options.onRejected, () => ({
+      request,
+      url,
+      reason: state.reason ?? 'error',
+      status: response.status,
+      duration: timings.total,
+    }));
+  }
+  if (options.serverTiming) {
+    response.headers.set('Server-Timing', formatServerTiming(timings));
+  }
+  emit(options.onResponse, () => ({
+    request,
+    url,
+    status: response.status,
+    bytes: response.status === 200 && state.markdown ? byteLength(state.markdown) : 0,
+    duration: timings.total,
+    cacheStatus: state.cacheStatus,
+    timings,
+  }));
+  return response;
+}
+
+/**
+ * Markdown変換パイプラインを実行
+ * Middleware・Route Handlerの両方がこの関数をラップしており、検証や変換の挙動はすべて共通となる
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param target - 変換対象のパスとネゴシエーションの有無
+ * @param options - パイプラインオプション
+ * @returns Markdownレスポンス、304レスポンス、またはエラーレスポンス
+ * @example
+ * ```typescript
+ * // 独自のエントリーポイントから利用する場合
+ * const response = await runMarkdownPipeline(request, { path: '/about' }, { turndown });
+ * ```
+ */
+export async function runMarkdownPipeline(
+  request: NextRequest,
+  target: MarkdownPipelineTarget,
+  options: MarkdownPipelineOptions = DEFAULT_OPTIONS
+): Promise<Response> {
+  const startedAt = performance.now();
+  const state: PipelineState = { timings: {} };
+  let response: Response;
+  try {
+    response = await executePipeline(request, target, options, state);
+  } catch (error) {
+    state.reason = error instanceof MarkdownError ? error.reason : 'error';
+    response = await handleError(error, request, options);
+    if (state.authenticated) {
+      markPrivate(response);
+    }
+  }
+  return observeResponse(request, response, options, state, startedAt);
+}
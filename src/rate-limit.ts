@@ -0,0 +1,219 @@
+/**
+ * 変換のレート制限と同時実行数の制限
+ *
+ * @packageDocumentation
+ */
+
+import type { NextRequest } from 'next/server';
+import type {
+  ConcurrencyOptions,
+  MarkdownPipelineOptions,
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitStore,
+} from './types';
+import { getClientIp } from './utils';
+
+/** デフォルトのバケット容量 */
+const DEFAULT_CAPACITY = 60;
+
+/** デフォルトの1秒あたりの補充トークン数 */
+const DEFAULT_REFILL_RATE = 1;
+
+/** インメモリストアのデフォルト最大キー数 */
+const DEFAULT_MAX_KEYS = 10000;
+
+/**
+ * インメモリレート制限ストアのオプション
+ */
+export interface MemoryRateLimitStoreOptions {
+  /** 保持するクライアントの最大数（デフォルト: 10000、超えた場合は最も古く参照されたクライアントを破棄） */
+  maxKeys?: number;
+}
+
+/**
+ * インメモリのトークンバケットストアを作成
+ * プロセス内でのみ共有されるため、複数インスタンス構成ではRedis/KV等のストアを使用すること
+ *
+ * @param options - ストアのオプション
+ * @returns レート制限ストア
+ * @example
+ * ```typescript
+ * const store = createMemoryRateLimitStore({ maxKeys: 50000 });
+ * createMarkdownMiddleware({ rateLimit: { capacity: 30, refillRate: 0.5, store } });
+ * ```
+ */
+export function createMemoryRateLimitStore(
+  options: MemoryRateLimitStoreOptions = {}
+): RateLimitStore {
+  const maxKeys = options.maxKeys ?? DEFAULT_MAX_KEYS;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  return {
+    consume(key, { capacity, refillRate }) {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+      // 前回の参照からの経過時間に応じてトークンを補充する
+      let tokens = bucket
+        ? Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillRate)
+        : capacity;
+      const allowed = tokens >= 1;
+      if (allowed) {
+        tokens -= 1;
+      }
+
+      // 参照されたクライアントを末尾に移動（LRU）
+      buckets.delete(key);
+      buckets.set(key, { tokens, updatedAt: now });
+      while (buckets.size > maxKeys) {
+        const oldest = buckets.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        buckets.delete(oldest);
+      }
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillRate),
+      };
+    },
+  };
+}
+
+/** ストアを指定しなかったオプションごとのインメモリストア */
+const defaultStores = new WeakMap<RateLimitOptions, RateLimitStore>();
+
+/**
+ * リクエストからクライアントを識別するキーを作成
+ *
+ * @internal
+ */
+function getClientKey(request: NextRequest, options: MarkdownPipelineOptions): string {
+  const key = options.rateLimit?.key ?? 'ip';
+  if (typeof key === 'function') {
+    return key(request);
+  }
+  if (key === 'user-agent') {
+    return request.headers.get('user-agent') ?? '';
+  }
+  return getClientIp(request, options.trustedProxies) ?? 'unknown';
+}
+
+/**
+ * クライアントのトークンを1つ消費してレート制限を判定
+ * ストアのエラーはリクエストを許可する（変換を止めない）
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param options - パイプラインオプション
+ * @returns 判定結果（`rateLimit`が未指定の場合はnull）
+ * @internal
+ */
+export async function consumeRateLimit(
+  request: NextRequest,
+  options: MarkdownPipelineOptions
+): Promise<RateLimitResult | null> {
+  const rateLimit = options.rateLimit;
+  if (!rateLimit) {
+    return null;
+  }
+
+  let store = rateLimit.store ?? defaultStores.get(rateLimit);
+  if (!store) {
+    store = createMemoryRateLimitStore();
+    defaultStores.set(rateLimit, store);
+  }
+
+  try {
+    return await store.consume(`rl:${getClientKey(request, options)}`, {
+      capacity: rateLimit.capacity ?? DEFAULT_CAPACITY,
+      refillRate: rateLimit.refillRate ?? DEFAULT_REFILL_RATE,
+    });
+  } catch (error) {
+    console.error('Markdown rate limit store error:', error);
+    return null;
+  }
+}
+
+/**
+ * 同時実行数の制限
+ *
+ * @internal
+ */
+interface ConcurrencyLimiter {
+  /** 実行枠を取得（待機できない場合はnull、取得した場合は解放する関数） */
+  acquire(): Promise<(() => void) | null>;
+}
+
+/** オプションごとの同時実行数の制限 */
+const limiters = new WeakMap<ConcurrencyOptions, ConcurrencyLimiter>();
+
+/**
+ * 同時実行数の制限を作成
+ * 上限に達した場合は待機列に加え、待機列も上限に達した場合は実行枠を渡さない
+ *
+ * @internal
+ */
+function createConcurrencyLimiter(options: ConcurrencyOptions): ConcurrencyLimiter {
+  const maxQueue = options.maxQueue ?? 0;
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const release = () => {
+    // 待機中のリクエストがあれば実行枠をそのまま引き渡す
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    async acquire() {
+      if (active < options.maxInFlight) {
+        active++;
+        return release;
+      }
+      if (queue.length >= maxQueue) {
+        return null;
+      }
+      await new Promise<void>((resolve) => queue.push(resolve));
+      return release;
+    },
+  };
+}
+
+/**
+ * 同時実行数の制限内で処理を実行
+ *
+ * @param options - 同時実行数の制限設定（未指定の場合は制限しない）
+ * @param task - 実行する処理
+ * @returns 処理の結果（実行枠を取得できなかった場合はnull）
+ * @internal
+ */
+export async function withConcurrencyLimit<T>(
+  options: ConcurrencyOptions | undefined,
+  task: () => Promise<T>
+): Promise<T | null> {
+  if (!options) {
+    return task();
+  }
+
+  let limiter = limiters.get(options);
+  if (!limiter) {
+    limiter = createConcurrencyLimiter(options);
+    limiters.set(options, limiter);
+  }
+
+  const release = await limiter.acquire();
+  if (!release) {
+    return null;
+  }
+  try {
+    return await task();
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * SSRF対策のためのホスト名・IPアドレスの判定
+ * Edge RuntimeではDNSを解決できないため、URLに含まれるホスト名とIPアドレスのみを判定する
+ *
+ * @packageDocumentation
+ */
+
+/** IPアドレス範囲（バイト列とプレフィックス長） */
+type AddressRange = [bytes: number[], prefix: number];
+
+/**
+ * 許可リストに含まれない限り接続を拒否するアドレス範囲
+ * プライベート・リンクローカル（クラウドのメタデータサービスを含む）・CGNAT・マルチキャスト・予約済みの範囲
+ */
+const PRIVATE_RANGES = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '64:ff9b::/96',
+  'fc00::/7',
+  'fe80::/10',
+  'fec0::/10',
+  'ff00::/8',
+].map((range) => parseCidr(range) as AddressRange);
+
+/** ループバックアドレスの範囲 */
+const LOOPBACK_RANGES = ['127.0.0.0/8', '::1/128'].map((range) => parseCidr(range) as AddressRange);
+
+/**
+ * ドット区切りのIPv4アドレスをバイト列に変換
+ *
+ * @internal
+ */
+function parseIpv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null;
+  }
+  const bytes = parts.map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+/**
+ * コロン区切りのグループ（末尾はIPv4形式も可）をバイト列に変換
+ *
+ * @internal
+ */
+function parseIpv6Groups(text: string): number[] | null {
+  if (!text) {
+    return [];
+  }
+  const groups = text.split(':');
+  const bytes: number[] = [];
+  for (const [index, group] of groups.entries()) {
+    if (index === groups.length - 1 && group.includes('.')) {
+      const ipv4 = parseIpv4(group);
+      if (!ipv4) {
+        return null;
+      }
+      bytes.push(...ipv4);
+    } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+      const value = Number.parseInt(group, 16);
+      bytes.push(value >> 8, value & 0xff);
+    } else {
+      return null;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * IPv6アドレス（`::`による省略形を含む）をバイト列に変換
+ *
+ * @internal
+ */
+function parseIpv6(address: string): number[] | null {
+  const halves = address.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = parseIpv6Groups(halves[0]);
+  const tail = halves.length === 2 ? parseIpv6Groups(halves[1]) : [];
+  if (!head || !tail) {
+    return null;
+  }
+  if (halves.length === 1) {
+    return head.length === 16 ? head : null;
+  }
+  const fill = 16 - head.length - tail.length;
+  return fill >= 2 ? [...head, ...new Array<number>(fill).fill(0), ...tail] : null;
+}
+
+/**
+ * IPアドレスをバイト列に変換
+ * IPv4射影アドレス（`::ffff:127.0.0.1`）はIPv4アドレスとして扱う
+ *
+ * @param address - IPアドレス（IPv6はブラケット付きも可）
+ * @returns IPv4は4バイト、IPv6は16バイトの配列（IPアドレスでない場合はnull）
+ * @internal
+ */
+export function parseIp(address: string): number[] | null {
+  const value = address.replace(/^\[(.*)\]$/, '$1');
+  const ipv4 = parseIpv4(value);
+  if (ipv4) {
+    return ipv4;
+  }
+  const ipv6 = value.includes(':') ? parseIpv6(value) : null;
+  if (ipv6?.slice(0, 10).every((byte) => byte === 0) && ipv6[10] === 0xff && ipv6[11] === 0xff) {
+    return ipv6.slice(12);
+  }
+  return ipv6;
+}
+
+/**
+ * CIDR表記（`10.0.0.0/8`、`fc00::/7`）をアドレス範囲に変換
+ *
+ * @internal
+ */
+function parseCidr(cidr: string): AddressRange | null {
+  const [address, prefix] = cidr.split('/');
+  const bytes = parseIp(address);
+  const length = Number(prefix);
+  if (!bytes || !/^\d+$/.test(prefix) || length > bytes.length * 8) {
+    return null;
+  }
+  return [bytes, length];
+}
+
+/**
+ * IPアドレスがアドレス範囲に含まれるか判定
+ *
+ * @internal
+ */
+function isInRange(ip: number[], [bytes, prefix]: AddressRange): boolean {
+  if (ip.length !== bytes.length) {
+    return false;
+  }
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const mask = (0xff << (8 - Math.min(8, prefix - bit))) & 0xff;
+    if ((ip[bit / 8] & mask) !== (bytes[bit / 8] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * ホスト名を比較用に正規化
+ * ポート番号と末尾のドットを除去し、10進数・16進数表記のIPv4アドレスやIPv4射影アドレスをドット区切りに変換する
+ *
+ * @example
+ * ```typescript
+ * normalizeHostname('2130706433'); // '127.0.0.1'
+ * normalizeHostname('[::ffff:169.254.169.254]:80'); // '169.254.169.254'
+ * normalizeHostname('Example.COM.:3000'); // 'example.com'
+ * ```
+ *
+ * @param host - ホスト（`host:port`形式、ブラケットなしのIPv6アドレスも可）
+ * @returns 正規化したホスト名（IPv6アドレスはブラケットなし）
+ * @internal
+ */
+export function normalizeHostname(host: string): string {
+  let value = host.trim().toLowerCase();
+  // request.ip等のブラケットなしのIPv6アドレスはURLとして解析できるよう囲む
+  if (!value.startsWith('[') && value.split(':').length > 2) {
+    value = `[${value}]`;
+  }
+
+  let hostname: string;
+  try {
+    // WHATWG URLの解析で10進数・16進数・8進数表記のIPv4アドレスを正規化する
+    hostname = new URL(`http://${value}`).hostname.replace(/\.$/, '');
+  } catch {
+    return value;
+  }
+  const ip = parseIp(hostname);
+  return ip?.length === 4 ? ip.join('.') : hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * ホスト名が許可パターンに一致するか判定
+ * パターンは完全一致（`example.com`、`10.0.0.5`）、ワイルドカード（`*.example.com`、サブドメインのみ）、
+ * CIDR（`10.0.0.0/8`、`fd00::/8`）のいずれか
+ *
+ * @param hostname - 正規化済みのホスト名
+ * @param pattern - 許可パターン
+ * @returns 一致する場合はtrue
+ * @internal
+ */
+export function matchesHostPattern(hostname: string, pattern: string): boolean {
+  if (pattern.includes('/')) {
+    const range = parseCidr(pattern.trim().toLowerCase());
+    const ip = parseIp(hostname);
+    return Boolean(range && ip && isInRange(ip, range));
+  }
+  if (pattern.startsWith('*.')) {
+    return hostname.endsWith(`.${normalizeHostname(pattern.slice(2))}`);
+  }
+  return hostname === normalizeHostname(pattern);
+}
+
+/** 許可パターンのポート（`example.com:8080`、`[::1]:8080`、`10.0.0.0/8:3000`） */
+const PATTERN_PORT = /^(\[[^\]]+\]|[^:]+|[^/]+\/\d+):(\d+)$/;
+
+/**
+ * URLのホストとポートが`allowedHosts`の許可パターンに一致するか判定
+ * ポートを指定しないパターンはプロトコルのデフォルトのポートのみ許可し、
+ * それ以外のポートは`host:port`形式で明示したパターンのみ許可する
+ *
+ * @example
+ * ```typescript
+ * matchesAllowedHost(new URL('https://example.com/'), 'example.com'); // true
+ * matchesAllowedHost(new URL('http://example.com:6379/'), 'example.com'); // false
+ * matchesAllowedHost(new URL('http://10.0.3.7:3000/'), '10.0.0.0/16:3000'); // true
+ * ```
+ *
+ * @param url - 検証するURL
+ * @param pattern - 許可パターン（`matchesHostPattern`の形式に`:port`を付与可能）
+ * @returns 一致する場合はtrue
+ * @internal
+ */
+export function matchesAllowedHost(url: URL, pattern: string): boolean {
+  const match = PATTERN_PORT.exec(pattern.trim());
+  const [host, port] = match ? [match[1], match[2]] : [pattern, ''];
+  return url.port === port && matchesHostPattern(normalizeHostname(url.host), host);
+}
+
+/**
+ * ホスト名がループバック（`localhost`、`127.0.0.0/8`、`::1`）か判定
+ *
+ * @param hostname - 正規化済みのホスト名
+ * @internal
+ */
+export function isLoopbackHost(hostname: string): boolean {
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return true;
+  }
+  const ip = parseIp(hostname);
+  return Boolean(ip && LOOPBACK_RANGES.some((range) => isInRange(ip, range)));
+}
+
+/**
+ * ホスト名がプライベート・リンクローカル・予約済みのIPアドレスか判定
+ * ホスト名（ドメイン名）の場合は解決しないためfalseを返す
+ *
+ * @param hostname - 正規化済みのホスト名
+ * @internal
+ */
+export function isPrivateAddress(hostname: string): boolean {
+  const ip = parseIp(hostname);
+  return Boolean(ip && PRIVATE_RANGES.some((range) => isInRange(ip, range)));
+}
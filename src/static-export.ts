@@ -0,0 +1,152 @@
+/**
+ * 静的サイト向けのビルド時Markdownエクスポート
+ * ビルド済みのHTMLファイルを変換し、同じ階層に`.md`ファイルを書き出す
+ *
+ * Node.js専用のモジュールのため、パッケージのルート（Edge Runtime互換）からはexportしない
+ *
+ * @packageDocumentation
+ */
+
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { convertHtmlToMarkdown } from './converter';
+import { extractPageMetadata } from './front-matter';
+import {
+  DEFAULT_MAX_BYTES,
+  DEFAULT_SECTION,
+  type LoadedPage,
+  formatFull,
+  formatHeader,
+  formatIndex,
+} from './llms';
+import { parseHtml } from './parser';
+import type { StaticExportOptions, StaticExportResult } from './types';
+import { resolveSelectorRules, shouldExcludePath, toMarkdownUrl } from './utils';
+
+/** デフォルトのサイトURL */
+const DEFAULT_BASE_URL = 'http://localhost';
+
+/** エクスポートしないHTMLファイル（エラーページ） */
+const IGNORED_FILES = new Set(['404.html', '500.html']);
+
+/**
+ * ディレクトリ以下のHTMLファイルを再帰的に収集
+ * `_next`などの`_`で始まるディレクトリ・ファイルと隠しファイルは除外する
+ *
+ * @internal
+ */
+async function collectHtmlFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('_') || entry.name.startsWith('.')) {
+      continue;
+    }
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await collectHtmlFiles(path)));
+    } else if (entry.isFile() && entry.name.endsWith('.html') && !IGNORED_FILES.has(entry.name)) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * HTMLファイルのパスからページのパス名を作成
+ * `about.html`は`/about`、`about/index.html`（trailingSlash）は`/about/`とする
+ *
+ * @param dir - ビルド済みHTMLのディレクトリ
+ * @param file - HTMLファイルのパス
+ * @returns ページのパス名
+ * @internal
+ */
+export function toPagePath(dir: string, file: string): string {
+  const segments = relative(dir, file).slice(0, -'.html'.length).split(sep);
+  if (segments[segments.length - 1] === 'index') {
+    // 相対リンクがディレクトリ基準で解決されるよう末尾のスラッシュを残す
+    segments[segments.length - 1] = '';
+  }
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * ビルド済みのHTMLファイルをMarkdownに変換し、`.md`ファイルとして書き出す
+ * `/about`・`/about/`は`about.md`、ルートは`index.md`として出力するため、静的ホスティングでも`/about.md`で取得できる
+ *
+ * @example
+ * ```typescript
+ * import { exportStaticMarkdown } from 'next-markdown-middleware/static-export';
+ *
+ * await exportStaticMarkdown({
+ *   dir: './out',
+ *   baseUrl: 'https://example.com',
+ *   turndown: { headingStyle: 'atx' },
+ *   llms: { title: 'Example Docs' },
+ * });
+ * ```
+ *
+ * @param options - 静的エクスポートオプション
+ * @returns エクスポートしたページと書き込んだファイル
+ */
+export async function exportStaticMarkdown(
+  options: StaticExportOptions
+): Promise<StaticExportResult> {
+  const dir = resolve(options.dir);
+  const outDir = resolve(options.outDir ?? options.dir);
+  const baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+  const result: StaticExportResult = { pages: [], files: [] };
+  const loaded: LoadedPage[] = [];
+
+  for (const file of await collectHtmlFiles(dir)) {
+    const pathname = toPagePath(dir, file);
+    if (shouldExcludePath(pathname, options.exclude)) {
+      continue;
+    }
+
+    const url = new URL(pathname, baseUrl);
+    const html = await readFile(file, 'utf-8');
+    const markdown = convertHtmlToMarkdown(html, url.toString(), options.turndown, {
+      parser: options.parser,
+      content: options.content,
+      selectors: resolveSelectorRules(pathname, options.selectors),
+      frontMatter: options.frontMatter,
+    });
+
+    const markdownUrl = toMarkdownUrl(url);
+    const segments = new URL(markdownUrl).pathname.split('/').map(decodeURIComponent);
+    const target = join(outDir, ...segments);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, markdown);
+    result.pages.push(pathname);
+    result.files.push(target);
+
+    if (options.llms) {
+      const metadata = extractPageMetadata(parseHtml(html, options.parser), url.toString());
+      loaded.push({
+        url,
+        markdownUrl,
+        title: typeof metadata.title === 'string' ? metadata.title : pathname,
+        description: typeof metadata.description === 'string' ? metadata.description : undefined,
+        section: DEFAULT_SECTION,
+        markdown,
+      });
+    }
+  }
+
+  if (options.llms) {
+    const llmsOptions = options.llms === true ? {} : options.llms;
+    const header = formatHeader(llmsOptions, new URL(baseUrl).host);
+    const files: [string, string][] = [
+      ['llms.txt', formatIndex(loaded, header)],
+      ['llms-full.txt', formatFull(loaded, header, llmsOptions.maxBytes ?? DEFAULT_MAX_BYTES)],
+    ];
+    await mkdir(outDir, { recursive: true });
+    for (const [name, text] of files) {
+      const target = join(outDir, name);
+      await writeFile(target, text);
+      result.files.push(target);
+    }
+  }
+
+  return result;
+}
@@ -1,13 +1,250 @@
 import type { NextRequest } from 'next/server';
+import type TurndownService from 'turndown';
+import type { MarkdownError } from './errors';
+
+/**
+ * サーバー側キャッシュのエントリ
+ */
+export interface CacheEntry {
+  /** 変換済みのMarkdown */
+  markdown: string;
+  /** 作成日時（エポックミリ秒） */
+  createdAt: number;
+  /** MarkdownのETag（未設定の場合はレスポンス時に計算） */
+  etag?: string;
+  /** 元のページのLast-Modifiedヘッダーの値 */
+  lastModified?: string;
+}
+
+/**
+ * サーバー側キャッシュのストア
+ * Redis/KV等の外部ストアを使用する場合はこのインターフェースを実装する
+ */
+export interface CacheStore {
+  /** エントリを取得（存在しない場合はundefined） */
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  /** エントリを保存（ttlはエントリを保持する秒数） */
+  set(key: string, entry: CacheEntry, ttl: number): void | Promise<void>;
+  /** エントリを削除 */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * トークンバケットの設定
+ */
+export interface RateLimitBucket {
+  /** バケットの容量（連続して許可するリクエスト数） */
+  capacity: number;
+  /** 1秒あたりに補充するトークン数 */
+  refillRate: number;
+}
+
+/**
+ * トークンを消費した結果
+ */
+export interface RateLimitResult {
+  /** リクエストを許可するか */
+  allowed: boolean;
+  /** 残りのトークン数 */
+  remaining: number;
+  /** 次のトークンが補充されるまでの秒数（許可した場合は0） */
+  retryAfter: number;
+}
+
+/**
+ * レート制限のストア（クライアントごとのトークンバケットを保持する）
+ * Redis/KV等の外部ストアで複数インスタンス間で共有する場合はこのインターフェースを実装する
+ */
+export interface RateLimitStore {
+  /** キーのバケットからトークンを1つ消費 */
+  consume(key: string, bucket: RateLimitBucket): RateLimitResult | Promise<RateLimitResult>;
+}
+
+/**
+ * クライアントごとのレート制限設定（トークンバケット）
+ */
+export interface RateLimitOptions {
+  /** バケットの容量（連続して許可するリクエスト数、デフォルト: 60） */
+  capacity?: number;
+  /** 1秒あたりに補充するトークン数（デフォルト: 1） */
+  refillRate?: number;
+  /**
+   * クライアントを識別するキー（デフォルト: 'ip'）
+   * 'ip'は`request.ip`、または信頼するプロキシ経由の場合は`x-forwarded-for`の右端から見て
+   * 最初の信頼するプロキシではないアドレスを使用する（IPアドレスを取得できないリクエストは1つのバケットを共有する）
+   */
+  key?: 'ip' | 'user-agent' | ((request: NextRequest) => string);
+  /** ストア（デフォルト: オプションオブジェクトごとのインメモリストア） */
+  store?: RateLimitStore;
+}
+
+/**
+ * 同時に実行する変換数の制限設定（プロセス内）
+ */
+export interface ConcurrencyOptions {
+  /** 同時に実行する変換の最大数 */
+  maxInFlight: number;
+  /** 上限に達した場合に待機できるリクエスト数（デフォルト: 0、超えた場合は429） */
+  maxQueue?: number;
+}
+
+/**
+ * 変換を拒否・失敗した理由
+ * - forbidden: SSRF対策の検証で拒否した
+ * - rate-limited: クライアントのレート制限を超えた
+ * - overloaded: 同時実行数と待機列の上限を超えた
+ * - upstream-error: 元のページがエラーを返した（リダイレクト回数の超過を含む）
+ * - unsupported-content-type: 元のページがHTMLではなかった
+ * - too-large: 元のページが`maxRequestSize`を超えた
+ * - timeout: 元のページの取得がタイムアウトした
+ * - error: 予期しないエラーが発生した
+ */
+export type MarkdownRejectionReason =
+  | 'forbidden'
+  | 'rate-limited'
+  | 'overloaded'
+  | 'upstream-error'
+  | 'unsupported-content-type'
+  | 'too-large'
+  | 'timeout'
+  | 'error';
+
+/**
+ * ライフサイクルイベントの共通情報
+ */
+export interface MarkdownEvent {
+  /** Next.jsリクエストオブジェクト */
+  request: NextRequest;
+  /** 変換対象のページの公開URL */
+  url: string;
+}
+
+/**
+ * 元のページを取得したときのイベント
+ */
+export interface MarkdownFetchedEvent extends MarkdownEvent {
+  /** 元のページのステータスコード */
+  status: number;
+  /** 取得したHTMLのバイト数 */
+  bytes: number;
+  /** 取得にかかった時間（ミリ秒、リダイレクトと本文の読み込みを含む） */
+  duration: number;
+}
+
+/**
+ * HTMLをMarkdownに変換したときのイベント
+ */
+export interface MarkdownConvertedEvent extends MarkdownEvent {
+  /** 変換前のHTMLのバイト数 */
+  inputBytes: number;
+  /** 変換後のMarkdownのバイト数 */
+  bytes: number;
+  /** 変換にかかった時間（ミリ秒） */
+  duration: number;
+}
+
+/**
+ * 処理段階ごとの所要時間（ミリ秒）
+ * キャッシュから返した場合や同時のリクエストと変換を共有した場合は`fetch`・`convert`を含まない
+ */
+export interface MarkdownTimings {
+  /** 元のページの取得 */
+  fetch?: number;
+  /** Markdownへの変換 */
+  convert?: number;
+  /** リクエスト全体 */
+  total: number;
+}
+
+/**
+ * レスポンスを返したときのイベント（拒否・エラーを含むすべてのレスポンス）
+ */
+export interface MarkdownResponseEvent extends MarkdownEvent {
+  /** レスポンスのステータスコード */
+  status: number;
+  /** 返したMarkdownのバイト数（200以外の場合は0） */
+  bytes: number;
+  /** リクエスト全体の所要時間（ミリ秒） */
+  duration: number;
+  /** サーバー側キャッシュの参照結果（キャッシュ未使用時はundefined） */
+  cacheStatus?: 'HIT' | 'STALE' | 'MISS';
+  /** 処理段階ごとの所要時間 */
+  timings: MarkdownTimings;
+}
+
+/**
+ * 変換を拒否・失敗したときのイベント
+ */
+export interface MarkdownRejectedEvent extends MarkdownEvent {
+  /** 拒否・失敗の理由 */
+  reason: MarkdownRejectionReason;
+  /** レスポンスのステータスコード */
+  status: number;
+  /** 拒否するまでの所要時間（ミリ秒） */
+  duration: number;
+}
+
+/**
+ * 変換のライフサイクルフック
+ * フックの完了は待たず、フックのエラーはログに出力してレスポンスには影響させない
+ */
+export interface MarkdownLifecycleHooks {
+  /** 変換対象のURLを決定したとき（検証の前） */
+  onRequest?: (event: MarkdownEvent) => void | Promise<void>;
+  /** 元のページを取得したとき */
+  onFetched?: (event: MarkdownFetchedEvent) => void | Promise<void>;
+  /** HTMLをMarkdownに変換したとき */
+  onConverted?: (event: MarkdownConvertedEvent) => void | Promise<void>;
+  /** レスポンスを返すとき（拒否・エラーの場合は`onRejected`の後に呼び出す） */
+  onResponse?: (event: MarkdownResponseEvent) => void | Promise<void>;
+  /** 変換を拒否・失敗したとき */
+  onRejected?: (event: MarkdownRejectedEvent) => void | Promise<void>;
+}
+
+/**
+ * OpenTelemetryの`Span`と互換のスパン
+ */
+export interface TracingSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * OpenTelemetryの`Tracer`と互換のトレーサー（`trace.getTracer()`の戻り値をそのまま渡せる）
+ */
+export interface TracingTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, string | number | boolean> }
+  ): TracingSpan;
+}
 
 /**
  * キャッシュ設定
  */
 export interface CacheOptions {
-  /** キャッシュを有効にするか */
-  enabled: boolean;
+  /**
+   * Cache-Controlヘッダーでキャッシュを許可するか
+   * （デフォルト: Middlewareではfalse、Route Handlerではtrue）
+   */
+  enabled?: boolean;
   /** キャッシュの最大有効期限（秒単位、デフォルト: 3600） */
   maxAge?: number;
+  /** 共有キャッシュ（CDN）の有効期限（秒単位、デフォルト: maxAgeと同じ） */
+  sMaxAge?: number;
+  /**
+   * 期限切れ後に古いエントリを返しつつ再検証する猶予期間（秒単位、デフォルト: 0）
+   * サーバー側キャッシュとCache-Controlのstale-while-revalidateの両方に適用される
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * サーバー側キャッシュのストア（指定した場合のみ変換結果をキャッシュする）
+   * `frontMatter.transform`を指定した場合は変換結果がリクエストに依存するため使用しない
+   */
+  store?: CacheStore;
+  /** サーバー側キャッシュを分けるリクエストヘッダー（デフォルト: ['accept-language']） */
+  varyHeaders?: string[];
 }
 
 /**
@@ -20,6 +257,27 @@ export interface HeadersOptions {
   custom?: Record<string, string>;
 }
 
+/**
+ * 認証情報の転送設定（明示的に指定した認証情報のみ内部fetchに転送する）
+ * 認証情報を転送したレスポンスは`Cache-Control: private`とし、サーバー側キャッシュを使用しない
+ */
+export interface AuthOptions {
+  /** 転送するCookie名（指定した名前のCookieのみ転送する） */
+  cookies?: string[];
+  /** Authorizationヘッダーをそのまま転送するか（デフォルト: false） */
+  authorization?: boolean;
+  /**
+   * サーバー側で発行するサービストークン（常に付与するため、すべてのレスポンスがprivateとなる）
+   * 値はリクエストごとに発行する関数も指定できる
+   */
+  serviceToken?: {
+    /** トークンを付与するヘッダー名（例: 'x-service-token'） */
+    header: string;
+    /** トークンの値 */
+    value: string | ((request: NextRequest) => string | Promise<string>);
+  };
+}
+
 /**
  * パス除外設定
  */
@@ -30,6 +288,20 @@ export interface ExcludeOptions {
   excludeApiRoutes?: boolean;
 }
 
+/**
+ * 変換処理を拡張するプラグイン
+ */
+export interface MarkdownPlugin {
+  /** プラグイン名（デバッグ用） */
+  name?: string;
+  /** TurndownServiceの設定（addRule, keep, remove, use等）。インスタンス作成時に1回だけ呼ばれる */
+  setup?: (service: TurndownService) => void;
+  /** 変換前にDOMを加工するプリプロセッサー */
+  preprocess?: (document: Document) => void;
+  /** 変換後のMarkdownを加工するポストプロセッサー */
+  postprocess?: (markdown: string) => string;
+}
+
 /**
  * Turndown設定
  */
@@ -40,30 +312,368 @@ export interface TurndownOptions {
   codeBlockStyle?: 'fenced' | 'indented';
   /** 箇条書きマーカー */
   bulletListMarker?: '-' | '+' | '*';
+  /**
+   * Markdownの方言（デフォルト: 'commonmark'）
+   * 'gfm'の場合、テーブル・取り消し線・タスクリストをGitHub Flavored Markdownで出力する
+   */
+  flavor?: 'commonmark' | 'gfm';
+  /** 追加するTurndownルール（キーはルール名） */
+  rules?: Record<string, TurndownService.Rule>;
+  /** HTMLのまま残す要素 */
+  keep?: TurndownService.Filter;
+  /** 内容ごと除去する要素 */
+  remove?: TurndownService.Filter;
+  /** プラグイン（オブジェクト形式、またはturndown-plugin-gfmなどのTurndownプラグイン関数） */
+  plugins?: (MarkdownPlugin | TurndownService.Plugin)[];
   /** その他のTurndownオプション */
   [key: string]: unknown;
 }
 
 /**
- * Markdown Middlewareのオプション
+ * 本文抽出設定
  */
-export interface MarkdownMiddlewareOptions {
+export interface ContentOptions {
+  /**
+   * 抽出モード（デフォルト: 'readability'）
+   * - 'readability': ボイラープレートを除去し、本文要素のみを変換
+   * - 'full': ドキュメント全体を変換
+   */
+  mode?: 'readability' | 'full';
+  /**
+   * 本文ルートとして優先するCSSセレクター（先にマッチしたものを使用）
+   * いずれにもマッチしない場合はスコアリングで本文を推定する
+   * （デフォルト: ['[data-markdown-root]', 'main', 'article', '[role="main"]']）
+   */
+  rootSelectors?: string[];
+}
+
+/**
+ * CSSセレクターによる変換対象の指定
+ */
+export interface SelectorRules {
+  /** 変換対象とする要素のCSSセレクター（マッチした要素のみを文書順に変換） */
+  include?: string[];
+  /** 変換前に除去する要素のCSSセレクター */
+  remove?: string[];
+}
+
+/**
+ * パスごとのセレクタールール
+ */
+export interface SelectorRule extends SelectorRules {
+  /** ルールを適用するパスパターン（正規表現または文字列、省略時はすべてのパス） */
+  paths?: (string | RegExp)[];
+}
+
+/**
+ * フロントマターのフィールド
+ */
+export type FrontMatterFields = Record<string, unknown>;
+
+/**
+ * フロントマター設定
+ */
+export interface FrontMatterOptions {
+  /** 出力形式（デフォルト: 'yaml'） */
+  format?: 'yaml' | 'toml';
+  /**
+   * フィールドの追加・書き換えフック
+   * ページのメタデータから抽出したフィールドを受け取り、出力するフィールドを返す
+   * （Middleware/Route Handlerから呼ばれる場合はリクエストも渡される）
+   */
+  transform?: (fields: FrontMatterFields, request?: NextRequest) => FrontMatterFields;
+}
+
+/**
+ * HTMLパーサー
+ * HTML文字列を受け取り、解析済みのDocumentを返す
+ */
+export type HtmlParser = (html: string) => Document;
+
+/**
+ * HTML→Markdown変換の追加設定
+ */
+export interface ConvertOptions {
+  /**
+   * HTMLパーサー（デフォルト: 'domino'）
+   * 'domino'はWeb API以外に依存しないためEdge Runtimeでも動作する
+   * jsdom等を使用する場合はHTMLからDocumentを返す関数を指定する
+   */
+  parser?: 'domino' | HtmlParser;
+  /** 本文抽出設定 */
+  content?: ContentOptions;
+  /** セレクタールール */
+  selectors?: SelectorRules;
+  /** フロントマター設定（trueの場合はデフォルト設定のYAML） */
+  frontMatter?: boolean | FrontMatterOptions;
+}
+
+/**
+ * i18nロケールの設定
+ * 取得するページのロケールはNext.jsのi18nルーティング（`request.nextUrl.locale`）に従う
+ */
+export interface LocaleOptions {
+  /** 対応するロケール（Next.jsの`i18n.locales`と同じ値。Accept-Languageの判定とRoute Handlerのパス解析に使用） */
+  locales?: string[];
+  /**
+   * URLにロケールが含まれない場合、Accept-Languageからロケールを選択するか（デフォルト: false）
+   * 有効な場合は`Vary: Accept-Language`を付与する
+   */
+  detect?: boolean;
+  /** ロケールをフロントマターの`lang`として出力するか（デフォルト: false） */
+  frontMatter?: boolean;
+}
+
+/**
+ * 内部fetchのリダイレクト設定
+ * リダイレクト先はすべてSSRF対策の検証を行い、外部ホストへのリダイレクトは403とする
+ */
+export interface RedirectOptions {
+  /**
+   * リダイレクトの扱い（デフォルト: 'follow'）
+   * - 'follow': リダイレクトを追跡し、最終的なページを変換する
+   * - 'redirect': リダイレクト先に対応するMarkdownのURL（ネゴシエーションの場合はページのURL）へのリダイレクトを返す
+   */
+  mode?: 'follow' | 'redirect';
+  /** 追跡する最大リダイレクト回数（デフォルト: 5、超えた場合は502） */
+  maxRedirects?: number;
+  /**
+   * 'redirect'の場合に恒久的なリダイレクト（301・308）に対して返すステータスコード（デフォルト: 308）
+   * 一時的なリダイレクト（302・303・307）には307を返す
+   */
+  permanentStatus?: 301 | 308;
+}
+
+/**
+ * `transformResponse`に渡すコンテキスト
+ */
+export interface MarkdownTransformContext {
+  /** Next.jsリクエストオブジェクト */
+  request: NextRequest;
+  /** 変換対象のページの公開URL */
+  url: string;
+  /** レスポンスヘッダー（変更はそのままレスポンスに反映される） */
+  headers: Headers;
+  /** サーバー側キャッシュの参照結果（キャッシュ未使用時はundefined） */
+  cacheStatus?: 'HIT' | 'STALE' | 'MISS';
+}
+
+/**
+ * Markdown変換パイプラインの共通オプション
+ * MiddlewareとRoute Handlerのどちらでも同じ設定を使用できる
+ */
+export interface MarkdownPipelineOptions extends MarkdownLifecycleHooks {
+  /** HTMLパーサー（デフォルト: 'domino'、Edge Runtime互換） */
+  parser?: 'domino' | HtmlParser;
   /** キャッシュ設定 */
   cache?: CacheOptions;
   /** ヘッダー転送設定 */
   headers?: HeadersOptions;
-  /** パス除外設定 */
-  exclude?: ExcludeOptions;
+  /** 認証情報の転送設定（未指定の場合はCookie・Authorizationを転送しない） */
+  auth?: AuthOptions;
   /** Turndown設定 */
   turndown?: TurndownOptions;
-  /** エラーハンドリング */
-  onError?: (error: Error, request: NextRequest) => Response | null;
+  /** 本文抽出設定（指定した場合のみ本文抽出を行う） */
+  content?: ContentOptions;
+  /** セレクタールール（パスにマッチしたルールをすべて適用） */
+  selectors?: SelectorRule[];
+  /** フロントマター設定（trueの場合はデフォルト設定のYAML） */
+  frontMatter?: boolean | FrontMatterOptions;
+  /** i18nロケール設定 */
+  locale?: LocaleOptions;
+  /**
+   * MarkdownのURLの対応付け（デフォルト: `.md`拡張子のみ）
+   * Middlewareではリクエストの判定に使用し、リダイレクト先・llms.txtのリンクもこの形式で作成する
+   * Route Handlerではリライトに指定した設定と同じものを指定する
+   */
+  mapping?: MarkdownUrlMapping;
+  /**
+   * エラーハンドリング（Responseを返した場合はエラーレスポンスの代わりに返す）
+   * 404・413・415・504等を含むすべての失敗で呼び出し、完了を待ってからレスポンスを返す
+   * 予期しないエラーは500の`MarkdownError`に変換し、元のエラーを`cause`に保持して渡す
+   * ハンドラーがthrowした場合はログに出力し、`errorFormat`に応じたエラーレスポンスを返す
+   */
+  onError?: (
+    error: MarkdownError,
+    request: NextRequest
+  ) => Response | null | Promise<Response | null>;
+  /**
+   * レスポンスを作成する前にMarkdownの本文とヘッダーを書き換える（例: ライセンス表記・canonicalリンクの追加）
+   * 戻り値を本文とし、`context.headers`への変更をレスポンスヘッダーに反映する
+   * キャッシュには変換前のMarkdownを保存し、リクエストごとに適用する（本文を変更した場合はETagを再計算する）
+   */
+  transformResponse?: (
+    markdown: string,
+    context: MarkdownTransformContext
+  ) => string | Promise<string>;
+  /**
+   * エラーレスポンスの形式（デフォルト: 'problem+json'）
+   * - problem+json: RFC 9457 Problem Details（`application/problem+json`）
+   * - markdown: Markdownのエラー文書（`text/markdown`）
+   * - auto: AcceptヘッダーにJSONが含まれる場合はproblem+json、それ以外はmarkdown
+   */
+  errorFormat?: 'problem+json' | 'markdown' | 'auto';
   /** リクエストサイズ制限（バイト単位、デフォルト: 10MB） */
   maxRequestSize?: number;
-  /** fetchタイムアウト（ミリ秒単位、デフォルト: 30000） */
+  /** fetchタイムアウト（ミリ秒単位、本文の受信完了までを含む、デフォルト: 30000） */
   fetchTimeout?: number;
+  /** 内部fetchのリダイレクト設定 */
+  redirects?: RedirectOptions;
+  /** クライアントごとのレート制限（超えた場合は429） */
+  rateLimit?: RateLimitOptions;
+  /** 同時に実行する変換数の制限（キャッシュから返す場合は対象外） */
+  concurrency?: ConcurrencyOptions;
+  /** Server-Timingヘッダー（`fetch;dur=12.3, convert;dur=4.5, total;dur=20.1`）を付与するか（デフォルト: false） */
+  serverTiming?: boolean;
+  /**
+   * 同じページ・同じヘッダーに対する同時の変換を1回の取得・変換にまとめる（デフォルト: true）
+   * エラー・タイムアウトも待機中のすべてのリクエストに返す
+   * サーバー側キャッシュと同じ単位（URL・`cache.varyHeaders`・変換オプション）でまとめ、
+   * 認証情報を転送する場合は認証情報が同じリクエストのみまとめる
+   * `frontMatter.transform`を指定した場合は変換結果がリクエストに依存するため常にまとめない
+   */
+  coalesce?: boolean;
+  /**
+   * 内部fetchの接続先オリジン（例: 'http://127.0.0.1:3000'、またはリクエストから求める関数）
+   * 指定した場合、CDNやロードバランサーを経由せずにページを取得する
+   * Markdown内のリンクやキャッシュキーには引き続き公開URLを使用する（デフォルト: Hostヘッダーとx-forwarded-proto）
+   */
+  origin?: string | ((request: NextRequest) => string | URL);
+  /**
+   * 内部fetchを許可するホスト（完全一致、`*.example.com`のワイルドカード、`10.0.0.0/8`のCIDR）
+   * 指定した場合はHostヘッダーの値に関わらず、一致するホストのみ許可する
+   * ポートを指定しないパターンはデフォルトのポートのみ許可し、その他のポートは`localhost:3000`のように指定する
+   * 未指定の場合はループバックとリクエストのホストを許可し、プライベート・リンクローカルのIPアドレスは拒否する
+   */
+  allowedHosts?: string[];
+  /**
+   * `x-forwarded-host`・`x-forwarded-proto`を信頼するプロキシ（`request.ip`のIPアドレスまたはCIDR、trueの場合はすべて）
+   * 未指定の場合は`x-forwarded-proto`のみ使用し、信頼しない接続元からの`x-forwarded-*`は無視する
+   */
+  trustedProxies?: boolean | string[];
+}
+
+/**
+ * MarkdownのURLと元のページのパスの対応付け
+ */
+export interface MarkdownUrlMapping {
+  /** Markdownを要求する拡張子（デフォルト: ['.md']） */
+  suffixes?: string[];
+  /** Markdownを要求するクエリ（例: 'format=md'。値を省略した場合はパラメータの有無で判定） */
+  query?: string;
+  /** Markdownを要求するパスのプレフィックス（例: '/md'の場合は`/md/about`が`/about`に対応） */
+  prefix?: string;
+  /** Next.jsの`trailingSlash`設定（trueの場合は元のパスの末尾にスラッシュを付与、デフォルト: false） */
+  trailingSlash?: boolean;
+  /** Next.jsの`basePath`設定（URLから除去してから対応付けを行う） */
+  basePath?: string;
+}
+
+/**
+ * Markdown Middlewareのオプション
+ */
+export interface MarkdownMiddlewareOptions extends MarkdownPipelineOptions {
+  /** パス除外設定 */
+  exclude?: ExcludeOptions;
+  /**
+   * Acceptヘッダーによるコンテンツネゴシエーションを有効にするか（デフォルト: false）
+   * 有効な場合、`Accept: text/markdown`を優先するリクエストには
+   * `.md`拡張子なしの同じURLでMarkdownを返し、`Vary: Accept`を付与する
+   */
+  negotiate?: boolean;
+}
+
+/**
+ * llms.txtに掲載するページ
+ */
+export interface LlmsTxtPage {
+  /** ページのパス名（例: '/docs/getting-started'） */
+  path: string;
+  /** タイトル（省略時はページの<title>を使用） */
+  title?: string;
+  /** 説明（省略時はページのmeta descriptionを使用） */
+  description?: string;
+  /** 見出し（`## セクション`）ごとにページをまとめる（デフォルト: 'Pages'） */
+  section?: string;
+}
+
+/**
+ * llms.txt / llms-full.txt Route Handlerのオプション
+ * ページごとのロケールを持たないため`locale`は指定できず、ページのリダイレクトは常に追跡する
+ */
+export interface LlmsTxtOptions extends Omit<MarkdownPipelineOptions, 'locale' | 'redirects'> {
+  /** ページ・sitemapのリダイレクト設定（最大リダイレクト回数のみ） */
+  redirects?: Pick<RedirectOptions, 'maxRedirects'>;
+  /** サイト名（`# タイトル`として出力、デフォルト: Hostヘッダーの値） */
+  title?: string;
+  /** サイトの概要（`> 概要`として出力） */
+  description?: string;
+  /**
+   * 掲載するページ（パス名、ページ情報、またはそれらを返す関数）
+   * 省略時はsitemapからページを収集する
+   */
+  pages?:
+    | (string | LlmsTxtPage)[]
+    | ((request: NextRequest) => (string | LlmsTxtPage)[] | Promise<(string | LlmsTxtPage)[]>);
+  /** pagesを省略した場合に参照するsitemapのパス（デフォルト: '/sitemap.xml'） */
+  sitemap?: string;
+  /** 掲載する最大ページ数（デフォルト: 100） */
+  maxPages?: number;
+  /** llms-full.txtの最大サイズ（バイト単位、デフォルト: 5MB）。超えた時点で以降のページを省略する */
+  maxBytes?: number;
+}
+
+/**
+ * 静的エクスポートのオプション
+ * Middleware/Route Handlerと同じオプションオブジェクトを渡すことができる（変換に関係しない項目は無視する）
+ */
+export interface StaticExportOptions
+  extends Pick<
+    MarkdownMiddlewareOptions,
+    'parser' | 'turndown' | 'content' | 'selectors' | 'frontMatter' | 'exclude'
+  > {
+  /** ビルド済みHTMLのディレクトリ（`out`や`.next/server/app`など） */
+  dir: string;
+  /** Markdownの出力先ディレクトリ（デフォルト: `dir`と同じ） */
+  outDir?: string;
+  /** サイトの公開URL（相対リンクの解決とllms.txtのリンクに使用、デフォルト: 'http://localhost'） */
+  baseUrl?: string;
+  /** llms.txtとllms-full.txtも出力するか（オブジェクトの場合は見出しとサイズ上限を指定） */
+  llms?: boolean | Pick<LlmsTxtOptions, 'title' | 'description' | 'maxBytes'>;
 }
 
+/**
+ * 静的エクスポートの結果
+ */
+export interface StaticExportResult {
+  /** エクスポートしたページのパス名 */
+  pages: string[];
+  /** 書き込んだファイルのパス */
+  files: string[];
+}
+
+/**
+ * 内部リクエストの検証ポリシー
+ */
+export interface RequestPolicy
+  extends Pick<MarkdownPipelineOptions, 'allowedHosts' | 'trustedProxies'> {
+  /** 信頼するオリジン（`origin`オプションで指定した内部fetchの接続先） */
+  trustedOrigin?: string;
+}
+
+/**
+ * 内部リクエストを拒否した理由
+ * - `invalid-protocol`: http/https以外のURL
+ * - `missing-host`: Hostヘッダーがない
+ * - `host-not-allowed`: 許可されていないホスト
+ * - `private-address`: 許可されていないプライベート・リンクローカル・予約済みのIPアドレス
+ */
+export type RequestValidationReason =
+  | 'invalid-protocol'
+  | 'missing-host'
+  | 'host-not-allowed'
+  | 'private-address';
+
 /**
  * 内部リクエストの検証結果
  */
@@ -72,5 +682,6 @@ export interface RequestValidationResult {
   isValid: boolean;
   /** エラーメッセージ（無効な場合） */
   error?: string;
+  /** 拒否した理由（無効な場合） */
+  reason?: RequestValidationReason;
 }
-
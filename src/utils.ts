@@ -1,5 +1,21 @@
 import type { NextRequest } from 'next/server';
-import type { RequestValidationResult, ExcludeOptions } from './types';
+import {
+  isLoopbackHost,
+  isPrivateAddress,
+  matchesAllowedHost,
+  matchesHostPattern,
+  normalizeHostname,
+} from './ssrf';
+import type {
+  AuthOptions,
+  RequestPolicy,
+  RequestValidationResult,
+  ExcludeOptions,
+  LocaleOptions,
+  MarkdownUrlMapping,
+  SelectorRule,
+  SelectorRules,
+} from './types';
 
 /**
  * 安全に転送できるヘッダーのリスト
@@ -17,68 +33,187 @@ const SAFE_HEADERS = new Set([
  * リクエストが内部リクエストかどうかを検証
  * SSRF対策のため、外部URLへのリクエストを防ぐ
  *
+ * `allowedHosts`を指定した場合は一致するホストのみ許可する
+ * 未指定の場合はループバックとリクエストのホストを許可するが、プライベート・リンクローカル・予約済みのIPアドレスは拒否する
+ *
  * @param url - 検証するURL
  * @param request - Next.jsリクエストオブジェクト
- * @returns 検証結果（有効な場合はisValid: true、無効な場合はエラーメッセージを含む）
+ * @param policy - 検証ポリシー（許可するホスト、信頼するプロキシ・オリジン）
+ * @returns 検証結果（有効な場合はisValid: true、無効な場合はエラーメッセージと理由を含む）
  * @example
  * ```typescript
  * const url = new URL('http://localhost:3000/test');
- * const result = validateInternalRequest(url, request);
+ * const result = validateInternalRequest(url, request, { allowedHosts: ['*.example.com'] });
  * if (!result.isValid) {
- *   console.error(result.error);
+ *   console.error(result.reason, result.error);
  * }
  * ```
  */
 export function validateInternalRequest(
   url: URL,
   request: NextRequest,
+  policy: RequestPolicy = {},
 ): RequestValidationResult {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return {
+      isValid: false,
+      error: `Invalid protocol: ${url.protocol}`,
+      reason: 'invalid-protocol',
+    };
+  }
+
   // 相対パスの場合は常に有効
   if (!url.hostname) {
     return { isValid: true };
   }
 
-  // リクエストのホスト名を取得
-  const requestHost = request.headers.get('host');
+  // 信頼するオリジンはプロトコル・ホスト・ポートが完全に一致する場合のみ許可
+  if (policy.trustedOrigin && url.origin === policy.trustedOrigin) {
+    return { isValid: true };
+  }
+
+  // 10進数表記のIPv4アドレスやIPv4射影アドレスを正規化してから比較する
+  const urlHostname = normalizeHostname(url.host);
+
+  // 許可リストが指定されている場合はHostヘッダーを信頼せず、一致するホストとポートのみ許可
+  if (policy.allowedHosts) {
+    if (!policy.allowedHosts.some((pattern) => matchesAllowedHost(url, pattern))) {
+      return {
+        isValid: false,
+        error: `External URL not allowed: ${urlHostname}`,
+        reason: 'host-not-allowed',
+      };
+    }
+    return { isValid: true };
+  }
+
+  // リクエストのホスト名を取得（信頼するプロキシの場合はx-forwarded-hostを使用）
+  const requestHost = resolveRequestHost(request, policy.trustedProxies).host;
   if (!requestHost) {
     return {
       isValid: false,
       error: 'Missing Host header',
+      reason: 'missing-host',
     };
   }
 
-  // ホスト名の比較（ポート番号を除去）
-  // IPv6アドレスの場合、ブラケットを除去してからポート番号を除去
-  let requestHostname = requestHost;
-  if (requestHostname.startsWith('[')) {
-    // IPv6: [::1]:3000 -> ::1
-    const closeBracket = requestHostname.indexOf(']');
-    if (closeBracket !== -1) {
-      requestHostname = requestHostname.slice(1, closeBracket);
-    }
-  } else {
-    // IPv4/hostname: localhost:3000 -> localhost
-    requestHostname = requestHostname.split(':')[0];
+  // ループバック、または同じホスト名の場合のみ許可
+  if (!isLoopbackHost(urlHostname) && urlHostname !== normalizeHostname(requestHost)) {
+    return {
+      isValid: false,
+      error: `External URL not allowed: ${urlHostname}`,
+      reason: 'host-not-allowed',
+    };
   }
-  const urlHostname = url.hostname;
-
-  // localhost、127.0.0.1、::1、または同じホスト名の場合のみ許可
-  const isLocalhost =
-    urlHostname === 'localhost' ||
-    urlHostname === '127.0.0.1' ||
-    urlHostname === '::1' ||
-    urlHostname === requestHostname;
 
-  if (!isLocalhost) {
+  // 偽装されたHostヘッダーによるメタデータサービス等への接続を防ぐ
+  if (isPrivateAddress(urlHostname)) {
     return {
       isValid: false,
-      error: `External URL not allowed: ${urlHostname}`,
+      error: `Private address not allowed: ${urlHostname}`,
+      reason: 'private-address',
     };
   }
 
   return { isValid: true };
 }
 
+/**
+ * 接続元が信頼するプロキシか判定
+ *
+ * @internal
+ */
+function isTrustedProxy(request: NextRequest, trustedProxies: boolean | string[]): boolean {
+  if (typeof trustedProxies === 'boolean') {
+    return trustedProxies;
+  }
+  // Next.js 15以降では`request.ip`が提供されないため、型に依存せず参照する
+  const ip = (request as { ip?: string }).ip;
+  if (!ip) {
+    return false;
+  }
+  const hostname = normalizeHostname(ip);
+  return trustedProxies.some((pattern) => matchesHostPattern(hostname, pattern));
+}
+
+/**
+ * x-forwarded-*ヘッダーの先頭の値を取得
+ *
+ * @internal
+ */
+function getForwardedValue(request: NextRequest, name: string): string | undefined {
+  return request.headers.get(name)?.split(',')[0].trim() || undefined;
+}
+
+/**
+ * クライアントのIPアドレスを取得
+ * 信頼するプロキシからのリクエストのみ`x-forwarded-for`を参照し、右端から順に
+ * 信頼するプロキシではない最初のアドレス（プロキシが接続を受けたクライアント）を使用する
+ * 左側の値はクライアントが偽装できるため、すべて信頼するプロキシの場合のみ先頭を使用する
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param trustedProxies - 信頼するプロキシ（未指定の場合は`x-forwarded-for`を使用しない）
+ * @returns IPアドレス（取得できない場合はundefined）
+ * @internal
+ */
+export function getClientIp(
+  request: NextRequest,
+  trustedProxies?: boolean | string[],
+): string | undefined {
+  const ip = (request as { ip?: string }).ip;
+  if (trustedProxies === undefined || !isTrustedProxy(request, trustedProxies)) {
+    return ip;
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const patterns = Array.isArray(trustedProxies) ? trustedProxies : [];
+  for (let index = hops.length - 1; index > 0; index--) {
+    const hostname = normalizeHostname(hops[index]);
+    if (!patterns.some((pattern) => matchesHostPattern(hostname, pattern))) {
+      return hops[index];
+    }
+  }
+  return hops[0] ?? ip;
+}
+
+/**
+ * リクエストの公開URLのプロトコルとホストを解決
+ * `trustedProxies`を指定した場合は、信頼するプロキシからのリクエストのみ`x-forwarded-host`・`x-forwarded-proto`を使用する
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param trustedProxies - 信頼するプロキシ（未指定の場合は`x-forwarded-proto`のみ使用）
+ * @returns プロトコル（`http`または`https`）とホスト（Hostヘッダーがない場合はundefined）
+ * @internal
+ */
+export function resolveRequestHost(
+  request: NextRequest,
+  trustedProxies?: boolean | string[],
+): { protocol: string; host?: string } {
+  const host = request.headers.get('host') || undefined;
+  const trusted = trustedProxies === undefined || isTrustedProxy(request, trustedProxies);
+
+  // x-forwarded-proto ヘッダーを検証（ホワイトリスト方式）
+  let protocol = 'https';
+  const forwardedProto = trusted
+    ? getForwardedValue(request, 'x-forwarded-proto')
+    : request.nextUrl.protocol.slice(0, -1);
+  if (forwardedProto) {
+    const normalizedProto = forwardedProto.toLowerCase();
+    if (normalizedProto === 'http' || normalizedProto === 'https') {
+      protocol = normalizedProto;
+    }
+  }
+
+  // 信頼するプロキシが明示されている場合のみx-forwarded-hostを使用する
+  if (trustedProxies !== undefined && trusted) {
+    return { protocol, host: getForwardedValue(request, 'x-forwarded-host') ?? host };
+  }
+  return { protocol, host };
+}
+
 /**
  * 安全なヘッダーを抽出
  * 許可されたヘッダーのみを転送して、ヘッダーインジェクション攻撃を防ぐ
@@ -123,6 +258,85 @@ export function extractSafeHeaders(
   return headers;
 }
 
+/**
+ * 認証情報の転送設定からVaryに追加するヘッダー名を取得
+ * 認証情報のない匿名のレスポンスも、共有キャッシュが認証済みのリクエストに返さないよう同じヘッダー名で分離する
+ *
+ * @param auth - 認証情報の転送設定
+ * @returns Varyに追加するヘッダー名（`Cookie`・`Authorization`）
+ * @internal
+ */
+export function getAuthVaryHeaders(auth?: AuthOptions): string[] {
+  const vary: string[] = [];
+  if (auth?.cookies?.length) {
+    vary.push('Cookie');
+  }
+  if (auth?.authorization) {
+    vary.push('Authorization');
+  }
+  return vary;
+}
+
+/**
+ * 認証情報の転送設定に従い、内部fetchのヘッダーに認証情報を付与
+ * 指定した名前のCookie、Authorizationヘッダー、サービストークンのみを付与する
+ *
+ * @param headers - 内部fetchに転送するヘッダー
+ * @param request - Next.jsリクエストオブジェクト
+ * @param auth - 認証情報の転送設定
+ * @returns 認証情報を付与した場合はVaryに追加するヘッダー名（サービストークンのみの場合は空配列）、付与しなかった場合はundefined
+ * @example
+ * ```typescript
+ * const vary = await applyAuthHeaders(headers, request, { cookies: ['session'] });
+ * // ['Cookie']（sessionのCookieがある場合）
+ * ```
+ * @internal
+ */
+export async function applyAuthHeaders(
+  headers: Headers,
+  request: NextRequest,
+  auth?: AuthOptions,
+): Promise<string[] | undefined> {
+  if (!auth) {
+    return undefined;
+  }
+
+  const vary: string[] = [];
+  let forwarded = false;
+
+  if (auth.cookies?.length) {
+    // 値を変えずに転送するため、Cookieヘッダーから指定した名前の組のみを取り出す
+    const names = new Set(auth.cookies);
+    const cookies = (request.headers.get('cookie') ?? '')
+      .split(';')
+      .map((pair) => pair.trim())
+      .filter((pair) => {
+        const index = pair.indexOf('=');
+        return index > 0 && names.has(pair.slice(0, index).trim());
+      });
+    if (cookies.length > 0) {
+      headers.set('cookie', cookies.join('; '));
+      vary.push('Cookie');
+      forwarded = true;
+    }
+  }
+
+  const authorization = auth.authorization ? request.headers.get('authorization') : null;
+  if (authorization) {
+    headers.set('authorization', authorization);
+    vary.push('Authorization');
+    forwarded = true;
+  }
+
+  if (auth.serviceToken) {
+    const { header, value } = auth.serviceToken;
+    headers.set(header, typeof value === 'function' ? await value(request) : value);
+    forwarded = true;
+  }
+
+  return forwarded ? vary : undefined;
+}
+
 /**
  * パスが除外対象かどうかを判定
  *
@@ -162,44 +376,351 @@ export function shouldExcludePath(
 
   // カスタムパスパターンで除外
   if (options.paths) {
-    for (const pattern of options.paths) {
-      if (typeof pattern === 'string') {
-        if (pathname.includes(pattern)) {
-          return true;
-        }
-      } else if (pattern instanceof RegExp) {
-        if (pattern.test(pathname)) {
-          return true;
-        }
+    return matchesPathPattern(pathname, options.paths);
+  }
+
+  return false;
+}
+
+/**
+ * パスがいずれかのパターンにマッチするかを判定
+ * 文字列パターンは部分一致、RegExpパターンはtest()で判定する
+ *
+ * @param pathname - チェックするパス名
+ * @param patterns - パスパターンのリスト
+ * @returns いずれかにマッチする場合はtrue
+ * @internal
+ */
+function matchesPathPattern(pathname: string, patterns: (string | RegExp)[]): boolean {
+  for (const pattern of patterns) {
+    if (typeof pattern === 'string') {
+      if (pathname.includes(pattern)) {
+        return true;
+      }
+    } else if (pattern instanceof RegExp) {
+      if (pattern.test(pathname)) {
+        return true;
       }
     }
   }
-
   return false;
 }
 
+/**
+ * パスにマッチするセレクタールールを結合
+ * `paths`を省略したルールはすべてのパスに適用される
+ *
+ * @param pathname - 元のページのパス名
+ * @param rules - パスごとのセレクタールール
+ * @returns 結合されたセレクタールール（マッチするルールがない場合はundefined）
+ * @example
+ * ```typescript
+ * resolveSelectorRules('/blog/hello', [
+ *   { remove: ['script', 'style'] },
+ *   { paths: ['/blog/'], include: ['article .prose'] },
+ *   { paths: [/^\/docs\//], include: ['main'] },
+ * ]);
+ * // { include: ['article .prose'], remove: ['script', 'style'] }
+ * ```
+ */
+export function resolveSelectorRules(
+  pathname: string,
+  rules?: SelectorRule[],
+): SelectorRules | undefined {
+  if (!rules) {
+    return undefined;
+  }
+
+  const include: string[] = [];
+  const remove: string[] = [];
+  let matched = false;
+  for (const rule of rules) {
+    if (rule.paths && !matchesPathPattern(pathname, rule.paths)) {
+      continue;
+    }
+    matched = true;
+    include.push(...(rule.include ?? []));
+    remove.push(...(rule.remove ?? []));
+  }
+
+  return matched ? { include, remove } : undefined;
+}
+
+/**
+ * デフォルトのMarkdownの拡張子
+ */
+const DEFAULT_MARKDOWN_SUFFIXES = ['.md'];
+
 /**
  * .md拡張子を除去して元のパスを取得
  *
  * @param pathname - .md拡張子が付いたパス名
+ * @param suffixes - 除去する拡張子（デフォルト: ['.md']）
  * @returns .md拡張子を除去したパス名
  * @example
  * ```typescript
  * const original = getOriginalPath('/about.md'); // '/about'
  * ```
  */
-export function getOriginalPath(pathname: string): string {
-  if (pathname.endsWith('.md')) {
-    return pathname.slice(0, -3);
+export function getOriginalPath(
+  pathname: string,
+  suffixes: string[] = DEFAULT_MARKDOWN_SUFFIXES,
+): string {
+  const suffix = suffixes.find((candidate) => pathname.endsWith(candidate));
+  if (suffix) {
+    return pathname.slice(0, -suffix.length);
   }
   return pathname;
 }
 
+/**
+ * パス名から`basePath`を除去
+ * `basePath`で始まらない場合（Next.jsが除去済みの場合など）はそのまま返す
+ *
+ * @param pathname - パス名
+ * @param basePath - Next.jsの`basePath`設定
+ * @returns `basePath`を除去したパス名
+ * @internal
+ */
+export function stripBasePath(pathname: string, basePath?: string): string {
+  const base = basePath?.replace(/\/+$/, '');
+  if (base && (pathname === base || pathname.startsWith(`${base}/`))) {
+    return pathname.slice(base.length) || '/';
+  }
+  return pathname;
+}
+
+/**
+ * パス名に`basePath`を付与
+ *
+ * @param path - `basePath`を含まないパス名
+ * @param basePath - Next.jsの`basePath`設定
+ * @returns `basePath`を付与したパス名（ルートは`basePath`そのもの）
+ * @internal
+ */
+export function addBasePath(path: string, basePath?: string): string {
+  const base = basePath?.replace(/\/+$/, '');
+  if (!base) {
+    return path;
+  }
+  return path === '/' ? base : `${base}${path}`;
+}
+
+/**
+ * パス名にロケールを付与
+ *
+ * @param path - ロケールを含まないパス名
+ * @param locale - ロケール
+ * @returns ロケールを付与したパス名（ルートは`/ja`のようにロケールそのもの）
+ * @internal
+ */
+export function addLocale(path: string, locale?: string): string {
+  if (!locale) {
+    return path;
+  }
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * パス名の先頭のロケールを分離
+ *
+ * @param path - パス名
+ * @param locales - 対応するロケール
+ * @returns ロケール（含まれない場合はundefined）とロケールを除いたパス名
+ * @internal
+ */
+export function splitLocale(
+  path: string,
+  locales: string[] = [],
+): { locale?: string; path: string } {
+  const [, first, ...rest] = path.split('/');
+  const locale = locales.find((candidate) => candidate.toLowerCase() === first?.toLowerCase());
+  if (!locale) {
+    return { path };
+  }
+  return { locale, path: `/${rest.join('/')}` };
+}
+
+/**
+ * Accept-Languageヘッダーから最も優先されるロケールを選択
+ * 完全一致のほか、言語部分のみの一致（`ja-JP`と`ja`）も対象とする
+ *
+ * @param acceptLanguage - Accept-Languageヘッダーの値
+ * @param locales - 対応するロケール
+ * @returns 選択したロケール（一致しない場合はundefined）
+ * @example
+ * ```typescript
+ * detectLocale('ja-JP,ja;q=0.9,en;q=0.8', ['en', 'ja']); // 'ja'
+ * detectLocale('fr', ['en', 'ja']); // undefined
+ * ```
+ */
+export function detectLocale(
+  acceptLanguage: string | null,
+  locales: string[],
+): string | undefined {
+  if (!acceptLanguage) {
+    return undefined;
+  }
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [range, ...params] = part.split(';').map((value) => value.trim().toLowerCase());
+      const q = params.find((param) => param.startsWith('q='));
+      const quality = q ? Number.parseFloat(q.slice(2)) : 1;
+      return { range, quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(({ range, quality }) => range && range !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { range } of ranges) {
+    const language = range.split('-')[0];
+    const match =
+      locales.find((locale) => locale.toLowerCase() === range) ??
+      locales.find((locale) => locale.toLowerCase().split('-')[0] === language);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * リクエストから取得するページのロケールを解決
+ * URLにロケールが含まれる場合はそのロケールを使用し、含まれない場合は`detect`が有効なら
+ * Accept-Languageから選択する。いずれでもない場合はNext.jsが解決したロケール（デフォルトロケール）とする
+ * （Next.jsはURLからデフォルトロケールを除去するため、`/en/about`は`/about`と同じ扱いになる）
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param options - ロケール設定
+ * @returns ロケール（i18nが無効な場合はundefined）とAccept-Languageから選択したかどうか
+ * @internal
+ */
+export function resolveRequestLocale(
+  request: NextRequest,
+  options: LocaleOptions = {},
+): { locale?: string; detected: boolean } {
+  const locale = request.nextUrl.locale || undefined;
+  const rawPath = stripBasePath(new URL(request.url).pathname, request.nextUrl.basePath);
+  const explicit = splitLocale(rawPath, options.locales).locale;
+  if (explicit) {
+    return { locale: explicit, detected: false };
+  }
+
+  if (options.detect && options.locales?.length) {
+    const detected = detectLocale(request.headers.get('accept-language'), options.locales);
+    return { locale: detected ?? locale, detected: true };
+  }
+  return { locale, detected: false };
+}
+
+/**
+ * 元のページのパスを正規化
+ * `/index`は`/`、`/docs/index`は`/docs`とし、`trailingSlash`に合わせて末尾のスラッシュを揃える
+ *
+ * @internal
+ */
+function normalizePagePath(path: string, trailingSlash?: boolean): string {
+  const withoutIndex = path.replace(/(^|\/)index$/, '$1');
+  const trimmed = withoutIndex.replace(/\/+$/, '');
+  if (!trimmed) {
+    return '/';
+  }
+  const normalized = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  return trailingSlash ? `${normalized}/` : normalized;
+}
+
+/**
+ * クエリがMarkdownを要求しているかを判定
+ *
+ * @internal
+ */
+function matchesMarkdownQuery(searchParams: URLSearchParams, query: string): boolean {
+  const [name, value] = query.split('=');
+  return value === undefined ? searchParams.has(name) : searchParams.get(name) === value;
+}
+
+/**
+ * MarkdownのURLから元のページのパスを解決
+ * 拡張子（`/about.md`）・プレフィックス（`/md/about`）・クエリ（`/about?format=md`）の順に判定する
+ * `basePath`は除去した状態で返す
+ *
+ * @param url - リクエストのURL
+ * @param mapping - URLの対応付け設定
+ * @returns 元のページのパス（Markdownのリクエストでない場合はnull）
+ * @example
+ * ```typescript
+ * resolveMarkdownPath(new URL('https://example.com/docs.md')); // '/docs'
+ * resolveMarkdownPath(new URL('https://example.com/index.md')); // '/'
+ * resolveMarkdownPath(new URL('https://example.com/md/about'), { prefix: '/md' }); // '/about'
+ * resolveMarkdownPath(new URL('https://example.com/about?format=md'), { query: 'format=md' }); // '/about'
+ * ```
+ */
+export function resolveMarkdownPath(
+  url: Pick<URL, 'pathname' | 'searchParams'>,
+  mapping: MarkdownUrlMapping = {},
+): string | null {
+  const pathname = stripBasePath(url.pathname, mapping.basePath);
+
+  const suffixes = mapping.suffixes ?? DEFAULT_MARKDOWN_SUFFIXES;
+  if (suffixes.some((suffix) => pathname.endsWith(suffix))) {
+    return normalizePagePath(getOriginalPath(pathname, suffixes), mapping.trailingSlash);
+  }
+
+  const prefix = mapping.prefix?.replace(/\/+$/, '');
+  if (prefix && (pathname === prefix || pathname.startsWith(`${prefix}/`))) {
+    return normalizePagePath(pathname.slice(prefix.length), mapping.trailingSlash);
+  }
+
+  if (mapping.query && matchesMarkdownQuery(url.searchParams, mapping.query)) {
+    return normalizePagePath(pathname, mapping.trailingSlash);
+  }
+
+  return null;
+}
+
+/**
+ * ページのURLからMarkdownのURLを作成
+ * `mapping`に拡張子を指定した場合は先頭の拡張子、指定せずにプレフィックスまたはクエリを
+ * 指定した場合はその形式で作成する（`resolveMarkdownPath`で元のページに戻せるURLとなる）
+ * 拡張子の形式ではルートパスを`/index.md`とする
+ *
+ * @param url - ページのURL
+ * @param mapping - URLの対応付け設定
+ * @returns MarkdownのURL（`/about`は`/about.md`、`/md/about`、`/about?format=md`）
+ * @internal
+ */
+export function toMarkdownUrl(
+  url: URL,
+  mapping: MarkdownUrlMapping = {},
+): string {
+  const markdownUrl = new URL(url);
+  const suffix = mapping.suffixes?.[0];
+  const prefix = mapping.prefix?.replace(/\/+$/, '');
+  if (!suffix && !prefix && mapping.query) {
+    const [name, value = ''] = mapping.query.split('=');
+    markdownUrl.searchParams.set(name, value);
+    return markdownUrl.toString();
+  }
+
+  // basePathはプレフィックス・拡張子の外側に残す
+  const { pathname } = markdownUrl;
+  const base = mapping.basePath?.replace(/\/+$/, '') ?? '';
+  const inBase = base !== '' && (pathname === base || pathname.startsWith(`${base}/`));
+  const path = (inBase ? pathname.slice(base.length) : pathname).replace(/\/+$/, '');
+  markdownUrl.pathname =
+    !suffix && prefix
+      ? `${inBase ? base : ''}${prefix}${path}`
+      : `${inBase ? base : ''}${path || '/index'}${suffix ?? '.md'}`;
+  return markdownUrl.toString();
+}
+
 /**
  * 絶対URLを構築
  *
  * @param pathname - パス名
  * @param request - Next.jsリクエストオブジェクト
+ * @param trustedProxies - x-forwarded-*を信頼するプロキシ
  * @returns 構築された絶対URL
  * @example
  * ```typescript
@@ -210,20 +731,48 @@ export function getOriginalPath(pathname: string): string {
 export function buildAbsoluteUrl(
   pathname: string,
   request: NextRequest,
+  trustedProxies?: boolean | string[],
 ): URL {
-  // x-forwarded-proto ヘッダーを検証（ホワイトリスト方式）
-  const forwardedProto = request.headers.get('x-forwarded-proto');
-  let protocol = 'https';
-  if (forwardedProto) {
-    const normalizedProto = forwardedProto.trim().toLowerCase();
-    if (normalizedProto === 'http' || normalizedProto === 'https') {
-      protocol = normalizedProto;
-    }
-  }
-  const host = request.headers.get('host') || 'localhost';
+  const { protocol, host = 'localhost' } = resolveRequestHost(request, trustedProxies);
   return new URL(pathname, `${protocol}://${host}`);
 }
 
+/**
+ * 内部fetchの接続先オリジンを解決
+ *
+ * @param request - Next.jsリクエストオブジェクト
+ * @param origin - `origin`オプション（文字列またはリクエストから求める関数）
+ * @returns オリジン（`http://127.0.0.1:3000`の形式、未指定の場合はundefined）
+ * @throws オリジンがhttp/httpsのURLでない場合
+ * @internal
+ */
+export function resolveOrigin(
+  request: NextRequest,
+  origin?: string | ((request: NextRequest) => string | URL),
+): string | undefined {
+  if (!origin) {
+    return undefined;
+  }
+  const url = new URL(typeof origin === 'function' ? origin(request) : origin);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Invalid origin protocol: ${url.protocol}`);
+  }
+  return url.origin;
+}
+
+/**
+ * 内部fetchに使用するURLを作成
+ * オリジンが指定されている場合は、公開URLのパスとクエリをそのオリジンに付け替える
+ *
+ * @param url - 公開URL（リンクの解決やキャッシュキーに使用するURL）
+ * @param origin - 内部fetchの接続先オリジン
+ * @returns 内部fetchに使用するURL
+ * @internal
+ */
+export function toUpstreamUrl(url: URL, origin?: string): URL {
+  return origin ? new URL(`${url.pathname}${url.search}`, origin) : url;
+}
+
 /**
  * HTML属性値をエスケープ
  * XSS対策のため、HTMLエンティティに変換
@@ -281,3 +830,89 @@ export function addBaseTag(html: string, baseUrl: string): string {
   return `${baseTag}${html}`;
 }
 
+
+/**
+ * Acceptヘッダーから指定したメディアタイプの品質値を取得
+ * 完全一致 > type/* > *\/* の順に具体的なメディアレンジを優先する
+ *
+ * @param accept - Acceptヘッダーの値
+ * @param mediaType - 品質値を求めるメディアタイプ（例: 'text/markdown'）
+ * @returns 品質値とマッチの具体性（マッチしない場合はquality: 0, specificity: -1）
+ * @internal
+ */
+function getAcceptQuality(
+  accept: string,
+  mediaType: string,
+): { quality: number; specificity: number; index: number } {
+  const [type] = mediaType.split('/');
+  let best = { quality: 0, specificity: -1, index: -1 };
+
+  const ranges = accept.split(',');
+  for (let index = 0; index < ranges.length; index++) {
+    const [range, ...params] = ranges[index].split(';').map((part) => part.trim().toLowerCase());
+    if (!range) {
+      continue;
+    }
+
+    let specificity = -1;
+    if (range === mediaType) {
+      specificity = 2;
+    } else if (range === `${type}/*`) {
+      specificity = 1;
+    } else if (range === '*/*') {
+      specificity = 0;
+    }
+    if (specificity < best.specificity || specificity === -1) {
+      continue;
+    }
+
+    let quality = 1;
+    for (const param of params) {
+      const [key, value] = param.split('=').map((part) => part.trim());
+      if (key === 'q') {
+        const parsed = Number.parseFloat(value);
+        quality = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      }
+    }
+
+    if (specificity > best.specificity) {
+      best = { quality, specificity, index };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * AcceptヘッダーがHTMLよりMarkdownを優先しているかを判定
+ * 品質値（q）を比較し、同じ品質値の場合はより具体的に指定された方、
+ * それも同じ場合は先に列挙された方を優先する
+ *
+ * @param accept - Acceptヘッダーの値
+ * @returns text/markdownをtext/htmlより優先する場合はtrue
+ * @example
+ * ```typescript
+ * prefersMarkdown('text/markdown, text/html;q=0.9'); // true
+ * prefersMarkdown('text/html, text/markdown;q=0.5'); // false
+ * prefersMarkdown('*\/*'); // false
+ * ```
+ */
+export function prefersMarkdown(accept: string | null): boolean {
+  if (!accept) {
+    return false;
+  }
+
+  const markdown = getAcceptQuality(accept, 'text/markdown');
+  const html = getAcceptQuality(accept, 'text/html');
+
+  if (markdown.quality <= 0) {
+    return false;
+  }
+  if (markdown.quality !== html.quality) {
+    return markdown.quality > html.quality;
+  }
+  if (markdown.specificity !== html.specificity) {
+    return markdown.specificity > html.specificity;
+  }
+  return markdown.index < html.index;
+}